@@ -1,22 +1,35 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import ControlsBar from './components/ControlsBar';
 import ControlsBar3D from './components/ControlsBar3D';
 import ExpressionList from './components/ExpressionList';
 import ExpressionList3D from './components/ExpressionList3D';
 import GraphCanvas from './components/GraphCanvas';
 import GraphCanvas3D from './components/GraphCanvas3D';
+import IntersectionTool from './components/IntersectionTool';
 import TikzModal from './components/TikzModal';
-import { prepareMath } from './lib/mathParser';
+import { prepareDataTable } from './lib/dataTable';
+import { duplicateDefinition, samplingFailure } from './lib/diagnostics';
+import { formatNumber } from './lib/formatting';
+import { collectMathContext, prepareMath } from './lib/mathParser';
 import { prepareMath3D } from './lib/mathParser3d';
-import { generateTikzExport } from './lib/tikzExport';
+import { createMathSources, type MathSources } from './lib/plotSampling';
+import { hasPointsOfInterest } from './lib/pointsOfInterest';
+import { createSamplingChannel, retainFailed, type SamplingChannel } from './lib/samplingPool';
+import { exportDiagnostics, generateTikzExport } from './lib/tikzExport';
 import { generateTikzExport3D } from './lib/tikzExport3d';
 import { DEFAULT_VIEWPORT_3D, clampViewport3D } from './lib/viewport3d';
 import { clampViewport, DEFAULT_VIEWPORT } from './lib/viewport';
 import type {
+  DataTable,
+  Diagnostic,
   Expression,
   Expression3D,
   GraphSettings,
   GraphSettings3D,
+  IntersectionQuery,
+  Point,
+  PointOfInterest,
+  PreparedDataTable,
   PreparedExpression,
   PreparedExpression3D,
   Viewport,
@@ -27,6 +40,7 @@ const COLORS = ['#0f766e', '#ef4444', '#2563eb', '#d97706', '#7c3aed', '#0891b2'
 
 let expressionCounter = 0;
 let expression3DCounter = 0;
+let tableCounter = 0;
 
 function nextExpressionId() {
   expressionCounter += 1;
@@ -48,7 +62,33 @@ function createExpression(input = ''): Expression {
     dashed: false,
     samples: 500,
     domainMin: '',
-    domainMax: ''
+    domainMax: '',
+    tMin: '',
+    tMax: '',
+    sliderMin: -10,
+    sliderMax: 10,
+    sliderStep: 0.1,
+    endpointDots: true,
+    pointLabels: [],
+    labelAnchor: 'above right',
+    implicitExport: 'coordinates',
+    pointsOfInterest: false,
+    exportPointsOfInterest: false
+  };
+}
+
+function createTable(): DataTable {
+  tableCounter += 1;
+  return {
+    id: `table-${tableCounter}`,
+    csvText: '',
+    visible: true,
+    color: COLORS[tableCounter % COLORS.length],
+    lineWidth: 1.25,
+    plotStyle: 'markers',
+    exportFormat: 'coordinates',
+    xColumn: '',
+    yColumn: ''
   };
 }
 
@@ -64,7 +104,10 @@ function createExpression3D(input = ''): Expression3D {
     domainXMin: '',
     domainXMax: '',
     domainYMin: '',
-    domainYMax: ''
+    domainYMax: '',
+    sliderMin: -10,
+    sliderMax: 10,
+    sliderStep: 0.1
   };
 }
 
@@ -81,6 +124,18 @@ function exampleExpressions(key: string): Expression[] {
       return [createExpression('(x^(1-1/10.5))/(1-(1/10.5))')];
     case 'mixed':
       return [createExpression('1/(x-1)'), createExpression('exp(0.2*x)')];
+    case 'parametric':
+      return [createExpression('(cos(t), sin(t))'), createExpression('(t - sin(t), 1 - cos(t))')];
+    case 'polar':
+      return [createExpression('r = 1 + cos(theta)'), createExpression('r = 2*sin(3*theta)')];
+    case 'parameters':
+      return [createExpression('a = 1'), createExpression('b = 2'), createExpression('a*x^2 + b')];
+    case 'points':
+      return [createExpression('x^2 - 1'), createExpression('[(-1, 0), (0, -1), (1, 0)]')];
+    case 'piecewise':
+      return [createExpression('{x < 0: -x, x >= 1: x^2, 1}')];
+    case 'calculus':
+      return [createExpression('f(x) = x^3/3 - x'), createExpression("f'(x)"), createExpression('integral(f, 0, x)')];
     default:
       return INITIAL_EXPRESSIONS;
   }
@@ -101,6 +156,52 @@ function exampleExpressions3D(key: string): Expression3D[] {
   }
 }
 
+type SamplingFailures = Record<'curves' | 'surfaces' | 'intersections' | 'pointsOfInterest', Record<string, string>>;
+
+const NO_SAMPLING_FAILURES: SamplingFailures = { curves: {}, surfaces: {}, intersections: {}, pointsOfInterest: {} };
+
+function withSamplingFailures(
+  previous: SamplingFailures,
+  source: keyof SamplingFailures,
+  failures: Record<string, string>
+): SamplingFailures {
+  return JSON.stringify(previous[source]) === JSON.stringify(failures) ? previous : { ...previous, [source]: failures };
+}
+
+function withFailureDiagnostics<Row extends { id: string; rawInput: string; diagnostics: Diagnostic[] }>(
+  rows: Row[],
+  failures: SamplingFailures
+): Row[] {
+  return rows.map((row) => {
+    const reasons = [...new Set(Object.values(failures).flatMap((source) => source[row.id] ?? []))];
+    return reasons.length > 0
+      ? { ...row, diagnostics: [...row.diagnostics, ...reasons.map((reason) => samplingFailure(row.rawInput, reason))] }
+      : row;
+  });
+}
+
+function definedName(row: Pick<PreparedExpression, 'parameter' | 'definition'>): string | null {
+  return row.parameter?.name ?? row.definition?.name ?? null;
+}
+
+// Rows share one namespace (2D before 3D, as in mathSources); the first definition of a name is the one others see.
+function withDuplicateDefinitions<Row extends PreparedExpression | PreparedExpression3D>(
+  rows: Row[],
+  defined: Set<string>
+): Row[] {
+  return rows.map((row) => {
+    const name = definedName(row);
+    if (!name) {
+      return row;
+    }
+    if (defined.has(name)) {
+      return { ...row, diagnostics: [...row.diagnostics, duplicateDefinition(row.rawInput, name)] };
+    }
+    defined.add(name);
+    return row;
+  });
+}
+
 function initialPage(): '2d' | '3d' {
   if (typeof window === 'undefined') {
     return '2d';
@@ -118,11 +219,21 @@ export default function App() {
   });
 
   const [expressions, setExpressions] = useState<Expression[]>(INITIAL_EXPRESSIONS);
+  const [tables, setTables] = useState<DataTable[]>([]);
   const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
   const [settings, setSettings] = useState<GraphSettings>({
     showGrid: true,
     showAxes: true,
-    showTicks: true
+    showTicks: true,
+    polarGrid: false,
+    angleMode: 'radians',
+    trigExport: 'symbolic',
+    trace: false
+  });
+  const [intersectionQuery, setIntersectionQuery] = useState<IntersectionQuery>({
+    firstId: '',
+    secondId: '',
+    exported: false
   });
 
   const [expressions3D, setExpressions3D] = useState<Expression3D[]>(INITIAL_EXPRESSIONS_3D);
@@ -130,9 +241,22 @@ export default function App() {
   const [settings3D, setSettings3D] = useState<GraphSettings3D>({
     showGrid: true,
     showAxes: true,
-    showBox: false
+    showBox: false,
+    angleMode: 'radians'
   });
 
+  const [intersections, setIntersections] = useState<Point[]>([]);
+  const [pointsOfInterest, setPointsOfInterest] = useState<Record<string, PointOfInterest[]>>({});
+  const analysisRef = useRef<{ intersections: SamplingChannel; pointsOfInterest: SamplingChannel } | null>(null);
+  const [samplingFailures, setSamplingFailures] = useState<SamplingFailures>(NO_SAMPLING_FAILURES);
+
+  const reportCurveFailures = useCallback((failures: Record<string, string>) => {
+    setSamplingFailures((prev) => withSamplingFailures(prev, 'curves', failures));
+  }, []);
+  const reportSurfaceFailures = useCallback((failures: Record<string, string>) => {
+    setSamplingFailures((prev) => withSamplingFailures(prev, 'surfaces', failures));
+  }, []);
+
   const [isTikzOpen, setIsTikzOpen] = useState(false);
   const [tikzMode, setTikzMode] = useState<'2d' | '3d'>('2d');
 
@@ -149,48 +273,140 @@ export default function App() {
     return () => mediaQuery.removeEventListener('change', onChange);
   }, []);
 
+  const preparedTables = useMemo<PreparedDataTable[]>(
+    () => tables.map((table, index) => prepareDataTable(table, index + 1)),
+    [tables]
+  );
+
+  const mathSources = useMemo<MathSources>(
+    () =>
+      createMathSources(
+        [...expressions, ...expressions3D].map((expr) => expr.rawInput),
+        preparedTables.flatMap((table) => table.columns),
+        settings.angleMode
+      ),
+    [expressions, expressions3D, preparedTables, settings.angleMode]
+  );
+
+  const mathSources3D = useMemo<MathSources>(
+    () => createMathSources(mathSources.rawInputs, mathSources.columns, settings3D.angleMode),
+    [mathSources, settings3D.angleMode]
+  );
+
+  const mathContext = useMemo(
+    () => collectMathContext(mathSources.rawInputs, mathSources.columns, mathSources.angleMode),
+    [mathSources]
+  );
+
+  const mathContext3D = useMemo(
+    () => ({ ...mathContext, angleMode: settings3D.angleMode }),
+    [mathContext, settings3D.angleMode]
+  );
+
+  const parsedExpressions = useMemo<PreparedExpression[]>(
+    () =>
+      withDuplicateDefinitions(
+        expressions.map((expr) => ({ ...expr, ...prepareMath(expr.rawInput, mathContext) })),
+        new Set()
+      ),
+    [expressions, mathContext]
+  );
+
+  // Export warnings follow the settings, so they stay out of the parsed rows that drive the analysis effects.
+  const exportWarnings = useMemo(
+    () =>
+      new Map(parsedExpressions.map((expr) => [expr.id, exportDiagnostics(expr, settings, mathContext.parameters)])),
+    [parsedExpressions, settings, mathContext.parameters]
+  );
+
   const preparedExpressions = useMemo<PreparedExpression[]>(
     () =>
-      expressions.map((expr) => {
-        const parsed = prepareMath(expr.rawInput);
-        return {
-          ...expr,
-          mode: parsed.mode,
-          normalizedInput: parsed.normalizedInput,
-          latex: parsed.latex,
-          error: parsed.error,
-          evaluator: parsed.evaluator,
-          implicitEvaluator: parsed.implicitEvaluator,
-          node: parsed.node
-        };
+      parsedExpressions.map((expr) => {
+        const warnings = exportWarnings.get(expr.id) ?? [];
+        return warnings.length > 0 ? { ...expr, diagnostics: [...expr.diagnostics, ...warnings] } : expr;
       }),
-    [expressions]
+    [parsedExpressions, exportWarnings]
   );
 
   const preparedExpressions3D = useMemo<PreparedExpression3D[]>(
     () =>
-      expressions3D.map((expr) => {
-        const parsed = prepareMath3D(expr.rawInput);
-        return {
-          ...expr,
-          normalizedInput: parsed.normalizedInput,
-          latex: parsed.latex,
-          error: parsed.error,
-          evaluator: parsed.evaluator,
-          node: parsed.node
-        };
-      }),
-    [expressions3D]
+      withDuplicateDefinitions(
+        expressions3D.map((expr) => ({ ...expr, ...prepareMath3D(expr.rawInput, mathContext3D) })),
+        new Set(parsedExpressions.map(definedName).filter((name): name is string => name !== null))
+      ),
+    [expressions3D, mathContext3D, parsedExpressions]
   );
 
+  const listedExpressions = useMemo(
+    () => withFailureDiagnostics(preparedExpressions, samplingFailures),
+    [preparedExpressions, samplingFailures]
+  );
+
+  const listedExpressions3D = useMemo(
+    () => withFailureDiagnostics(preparedExpressions3D, samplingFailures),
+    [preparedExpressions3D, samplingFailures]
+  );
+
+  const { firstId, secondId } = intersectionQuery;
+
+  useEffect(() => {
+    const channels = { intersections: createSamplingChannel(), pointsOfInterest: createSamplingChannel() };
+    analysisRef.current = channels;
+    return () => {
+      channels.intersections.dispose();
+      channels.pointsOfInterest.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    const first = parsedExpressions.find((expr) => expr.id === firstId && expr.visible);
+    const second = parsedExpressions.find((expr) => expr.id === secondId && expr.visible);
+    const pairs = first && second && first.id !== second.id ? [{ id: `${first.id}|${second.id}`, first, second }] : [];
+    analysisRef.current?.intersections.findIntersections(mathSources, pairs, viewport, (results, failures) => {
+      const failed = pairs.filter((pair) => pair.id in failures);
+      setIntersections((prev) => (failed.length > 0 ? prev : (Object.values(results)[0] ?? [])));
+      const rowFailures = Object.fromEntries(
+        failed.flatMap((pair) => [pair.first.id, pair.second.id].map((id) => [id, failures[pair.id]]))
+      );
+      setSamplingFailures((prev) => withSamplingFailures(prev, 'intersections', rowFailures));
+    });
+  }, [firstId, secondId, mathSources, parsedExpressions, viewport]);
+
+  useEffect(() => {
+    const rows = parsedExpressions.filter(
+      (expr) => expr.visible && expr.pointsOfInterest && hasPointsOfInterest(expr)
+    );
+    analysisRef.current?.pointsOfInterest.findPointsOfInterest(mathSources, rows, viewport, (results, failures) => {
+      setPointsOfInterest((prev) =>
+        Object.fromEntries(
+          Object.entries(retainFailed(prev, results, failures)).map(([id, points]) => [id, points ?? []])
+        )
+      );
+      setSamplingFailures((prev) => withSamplingFailures(prev, 'pointsOfInterest', failures));
+    });
+  }, [mathSources, parsedExpressions, viewport]);
+
   const tikzCode = useMemo(
     () =>
       generateTikzExport({
         expressions: preparedExpressions,
+        tables: preparedTables,
         viewport,
-        settings
+        settings,
+        parameters: mathContext.parameters,
+        intersections: intersectionQuery.exported ? intersections : [],
+        pointsOfInterest
       }),
-    [preparedExpressions, settings, viewport]
+    [
+      intersectionQuery.exported,
+      intersections,
+      mathContext,
+      pointsOfInterest,
+      preparedExpressions,
+      preparedTables,
+      settings,
+      viewport
+    ]
   );
 
   const tikzCode3D = useMemo(
@@ -198,9 +414,10 @@ export default function App() {
       generateTikzExport3D({
         expressions: preparedExpressions3D,
         viewport: viewport3D,
-        settings: settings3D
+        settings: settings3D,
+        parameters: mathContext.parameters
       }),
-    [preparedExpressions3D, settings3D, viewport3D]
+    [mathContext, preparedExpressions3D, settings3D, viewport3D]
   );
 
   const updateExpression = (id: string, patch: Partial<Expression>) => {
@@ -211,6 +428,11 @@ export default function App() {
     setExpressions((prev) => [...prev, createExpression('')]);
   };
 
+  const pinPoint = (point: Point, color: string) => {
+    const label = `(${formatNumber(point.x)}, ${formatNumber(point.y)})`;
+    setExpressions((prev) => [...prev, { ...createExpression(label), color, pointLabels: [label] }]);
+  };
+
   const removeExpression = (id: string) => {
     setExpressions((prev) => (prev.length <= 1 ? prev : prev.filter((expr) => expr.id !== id)));
   };
@@ -234,6 +456,18 @@ export default function App() {
     });
   };
 
+  const updateTable = (id: string, patch: Partial<DataTable>) => {
+    setTables((prev) => prev.map((table) => (table.id === id ? { ...table, ...patch } : table)));
+  };
+
+  const addTable = () => {
+    setTables((prev) => [...prev, createTable()]);
+  };
+
+  const removeTable = (id: string) => {
+    setTables((prev) => prev.filter((table) => table.id !== id));
+  };
+
   const updateExpression3D = (id: string, patch: Partial<Expression3D>) => {
     setExpressions3D((prev) => prev.map((expr) => (expr.id === id ? { ...expr, ...patch } : expr)));
   };
@@ -299,6 +533,7 @@ export default function App() {
               viewport={viewport}
               settings={settings}
               onAddExpression={addExpression}
+              onAddTable={addTable}
               onExport={() => {
                 setTikzMode('2d');
                 setIsTikzOpen(true);
@@ -308,25 +543,40 @@ export default function App() {
               onSettingsChange={(patch) => setSettings((prev) => ({ ...prev, ...patch }))}
               onViewportSubmit={(next) => setViewport(clampViewport(next))}
             />
+            <IntersectionTool
+              expressions={preparedExpressions}
+              query={intersectionQuery}
+              intersections={intersections}
+              onChange={(patch) => setIntersectionQuery((prev) => ({ ...prev, ...patch }))}
+            />
           </aside>
 
           <aside className="left-panel">
             <h2>Expressions</h2>
             <ExpressionList
-              expressions={preparedExpressions}
+              expressions={listedExpressions}
+              tables={preparedTables}
               onChange={updateExpression}
               onRemove={removeExpression}
               onMoveUp={(id) => moveExpression(id, -1)}
               onMoveDown={(id) => moveExpression(id, 1)}
+              onTableChange={updateTable}
+              onTableRemove={removeTable}
             />
           </aside>
 
           <section className="graph-panel">
             <GraphCanvas
+              sources={mathSources}
               expressions={preparedExpressions}
+              tables={preparedTables}
               viewport={viewport}
               settings={settings}
+              intersections={intersections}
+              pointsOfInterest={pointsOfInterest}
               onViewportChange={(next) => setViewport(clampViewport(next))}
+              onPinPoint={pinPoint}
+              onSamplingFailures={reportCurveFailures}
             />
           </section>
         </main>
@@ -351,7 +601,7 @@ export default function App() {
           <aside className="left-panel">
             <h2>Surfaces</h2>
             <ExpressionList3D
-              expressions={preparedExpressions3D}
+              expressions={listedExpressions3D}
               onChange={updateExpression3D}
               onRemove={removeExpression3D}
               onMoveUp={(id) => moveExpression3D(id, -1)}
@@ -361,10 +611,12 @@ export default function App() {
 
           <section className="graph-panel">
             <GraphCanvas3D
+              sources={mathSources3D}
               expressions={preparedExpressions3D}
               viewport={viewport3D}
               settings={settings3D}
               onViewportChange={(next) => setViewport3D(clampViewport3D(next))}
+              onSamplingFailures={reportSurfaceFailures}
             />
           </section>
         </main>
@@ -381,6 +633,8 @@ export default function App() {
         isOpen={isTikzOpen}
         variant={tikzMode}
         tikzCode={tikzMode === '2d' ? tikzCode : tikzCode3D}
+        trigExport={settings.trigExport}
+        onTrigExportChange={(trigExport) => setSettings((prev) => ({ ...prev, trigExport }))}
         onClose={() => setIsTikzOpen(false)}
       />
     </div>
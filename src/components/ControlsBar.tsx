@@ -1,11 +1,12 @@
 import { useEffect, useState, type KeyboardEvent } from 'react';
-import type { GraphSettings, Viewport } from '../types';
+import type { AngleMode, GraphSettings, Viewport } from '../types';
 import { formatNumber } from '../lib/formatting';
 
 interface ControlsBarProps {
   viewport: Viewport;
   settings: GraphSettings;
   onAddExpression: () => void;
+  onAddTable: () => void;
   onExport: () => void;
   onResetView: () => void;
   onLoadExample: (example: string) => void;
@@ -17,6 +18,7 @@ export default function ControlsBar({
   viewport,
   settings,
   onAddExpression,
+  onAddTable,
   onExport,
   onResetView,
   onLoadExample,
@@ -76,6 +78,7 @@ export default function ControlsBar({
   return (
     <div className="controls-bar">
       <button onClick={onAddExpression}>+ Add Expression</button>
+      <button onClick={onAddTable}>+ Add Table</button>
       <button onClick={onExport}>Export TikZ</button>
       <button onClick={onResetView}>Reset View</button>
 
@@ -89,6 +92,12 @@ export default function ControlsBar({
           <option value="sine">Sine + cosine</option>
           <option value="crra">CRRA style power</option>
           <option value="mixed">Rational + exponential</option>
+          <option value="parametric">Circle + cycloid</option>
+          <option value="polar">Cardioid + rose</option>
+          <option value="parameters">Parameter sliders</option>
+          <option value="piecewise">Piecewise</option>
+          <option value="points">Parabola + intercepts</option>
+          <option value="calculus">Derivative + integral</option>
         </select>
       </label>
 
@@ -116,6 +125,32 @@ export default function ControlsBar({
         />
         Ticks
       </label>
+      <label className="checkbox-row inline">
+        <input
+          type="checkbox"
+          checked={settings.polarGrid}
+          onChange={(event) => onSettingsChange({ polarGrid: event.target.checked })}
+        />
+        Polar grid
+      </label>
+      <label className="checkbox-row inline">
+        <input
+          type="checkbox"
+          checked={settings.trace}
+          onChange={(event) => onSettingsChange({ trace: event.target.checked })}
+        />
+        Trace
+      </label>
+      <label>
+        Angles
+        <select
+          value={settings.angleMode}
+          onChange={(event) => onSettingsChange({ angleMode: event.target.value as AngleMode })}
+        >
+          <option value="radians">Radians</option>
+          <option value="degrees">Degrees</option>
+        </select>
+      </label>
 
       <div className="viewport-chip">
         x:[{formatNumber(viewport.xMin)}, {formatNumber(viewport.xMax)}] y:[{formatNumber(viewport.yMin)},{' '}
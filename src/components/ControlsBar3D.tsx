@@ -1,5 +1,5 @@
 import { useEffect, useState, type KeyboardEvent } from 'react';
-import type { GraphSettings3D, Viewport3D } from '../types';
+import type { AngleMode, GraphSettings3D, Viewport3D } from '../types';
 import { formatNumber } from '../lib/formatting';
 
 interface ControlsBar3DProps {
@@ -127,6 +127,16 @@ export default function ControlsBar3D({
         />
         Box
       </label>
+      <label>
+        Angles
+        <select
+          value={settings.angleMode}
+          onChange={(event) => onSettingsChange({ angleMode: event.target.value as AngleMode })}
+        >
+          <option value="radians">Radians</option>
+          <option value="degrees">Degrees</option>
+        </select>
+      </label>
 
       <div className="viewport-chip">
         x:[{formatNumber(viewport.xMin)}, {formatNumber(viewport.xMax)}] y:[{formatNumber(viewport.yMin)},
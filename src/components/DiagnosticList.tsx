@@ -0,0 +1,22 @@
+import type { Diagnostic } from '../types';
+
+interface DiagnosticListProps {
+  diagnostics: Diagnostic[];
+}
+
+export default function DiagnosticList({ diagnostics }: DiagnosticListProps) {
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="expr-diagnostics">
+      {diagnostics.map((diagnostic, index) => (
+        <div key={index} className={`expr-diagnostic is-${diagnostic.severity}`}>
+          {diagnostic.message}
+          {diagnostic.suggestion && <span className="diagnostic-suggestion">{diagnostic.suggestion}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useRef } from 'react';
+import type { Diagnostic } from '../types';
+import { pastedExpression } from '../lib/latexInput';
+
+interface ExpressionInputProps {
+  value: string;
+  placeholder: string;
+  diagnostics: Diagnostic[];
+  onChange: (value: string) => void;
+}
+
+export default function ExpressionInput({ value, placeholder, diagnostics, onChange }: ExpressionInputProps) {
+  const overlayRef = useRef<HTMLDivElement | null>(null);
+  const marked = diagnostics.find((diagnostic) => diagnostic.end > diagnostic.start && diagnostic.end <= value.length);
+
+  return (
+    <div className="expr-input-wrap">
+      <input
+        className="expr-input"
+        placeholder={placeholder}
+        value={value}
+        aria-invalid={diagnostics.some((diagnostic) => diagnostic.severity === 'error')}
+        onChange={(event) => onChange(event.target.value)}
+        onScroll={(event) => {
+          if (overlayRef.current) {
+            overlayRef.current.scrollLeft = event.currentTarget.scrollLeft;
+          }
+        }}
+        onPaste={(event) => {
+          const input = event.currentTarget;
+          const next = pastedExpression(
+            value,
+            event.clipboardData.getData('text'),
+            input.selectionStart ?? value.length,
+            input.selectionEnd ?? value.length
+          );
+          if (next !== null) {
+            event.preventDefault();
+            onChange(next);
+          }
+        }}
+      />
+      {marked && (
+        <div ref={overlayRef} className="expr-input-overlay" aria-hidden="true">
+          {value.slice(0, marked.start)}
+          <span className={`diagnostic-mark is-${marked.severity}`}>{value.slice(marked.start, marked.end)}</span>
+          {value.slice(marked.end)}
+        </div>
+      )}
+    </div>
+  );
+}
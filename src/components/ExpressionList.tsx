@@ -1,20 +1,27 @@
-import type { Expression, PreparedExpression } from '../types';
+import type { DataTable, Expression, PreparedDataTable, PreparedExpression } from '../types';
 import ExpressionRow from './ExpressionRow';
+import TableEditor from './TableEditor';
 
 interface ExpressionListProps {
   expressions: PreparedExpression[];
+  tables: PreparedDataTable[];
   onChange: (id: string, patch: Partial<Expression>) => void;
   onRemove: (id: string) => void;
   onMoveUp: (id: string) => void;
   onMoveDown: (id: string) => void;
+  onTableChange: (id: string, patch: Partial<DataTable>) => void;
+  onTableRemove: (id: string) => void;
 }
 
 export default function ExpressionList({
   expressions,
+  tables,
   onChange,
   onRemove,
   onMoveUp,
-  onMoveDown
+  onMoveDown,
+  onTableChange,
+  onTableRemove
 }: ExpressionListProps) {
   return (
     <div className="expr-list">
@@ -30,6 +37,15 @@ export default function ExpressionList({
           onMoveDown={onMoveDown}
         />
       ))}
+      {tables.map((table, index) => (
+        <TableEditor
+          key={table.id}
+          table={table}
+          tableNumber={index + 1}
+          onChange={onTableChange}
+          onRemove={onTableRemove}
+        />
+      ))}
     </div>
   );
 }
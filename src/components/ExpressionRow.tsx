@@ -1,6 +1,20 @@
 import { useMemo, useState } from 'react';
-import type { Expression, PreparedExpression } from '../types';
-import { renderMathPreview } from '../lib/formatting';
+import type { Expression, ImplicitExportFormat, LabelAnchor, PreparedExpression } from '../types';
+import { formatNumber, renderMathPreview } from '../lib/formatting';
+import DiagnosticList from './DiagnosticList';
+import ExpressionInput from './ExpressionInput';
+import ParameterSlider from './ParameterSlider';
+
+const LABEL_ANCHORS: LabelAnchor[] = [
+  'above',
+  'below',
+  'left',
+  'right',
+  'above left',
+  'above right',
+  'below left',
+  'below right'
+];
 
 interface ExpressionRowProps {
   expression: PreparedExpression;
@@ -37,11 +51,11 @@ export default function ExpressionRow({
           title="Expression color"
           aria-label="Expression color"
         />
-        <input
-          className="expr-input"
-          placeholder="Type f(x) or equation, e.g. sin(x), x^2, y^2+x^2=1"
+        <ExpressionInput
+          placeholder="Type f(x), equation, point or parameter, e.g. sin(x), r=1+cos(theta), (2, 3), a=2"
           value={expression.rawInput}
-          onChange={(event) => onChange(expression.id, { rawInput: event.target.value })}
+          diagnostics={expression.diagnostics}
+          onChange={(rawInput) => onChange(expression.id, { rawInput })}
         />
         <div className="expr-actions">
           <button
@@ -78,28 +92,137 @@ export default function ExpressionRow({
 
       <div className="expr-preview" dangerouslySetInnerHTML={{ __html: previewHtml }} />
 
-      {expression.error && <div className="expr-error">{expression.error}</div>}
+      {expression.parameter && (
+        <ParameterSlider
+          parameter={expression.parameter}
+          min={expression.sliderMin}
+          max={expression.sliderMax}
+          step={expression.sliderStep}
+          onValueChange={(value) =>
+            onChange(expression.id, { rawInput: `${expression.parameter?.name ?? ''} = ${value}` })
+          }
+        />
+      )}
+
+      {expression.fit && !expression.error && (
+        <div className="fit-summary">
+          {Object.entries(expression.fit.coefficients).map(([name, value]) => (
+            <span key={name}>
+              {name} = {formatNumber(value)}
+            </span>
+          ))}
+          <span>R² = {expression.fit.rSquared.toFixed(4)}</span>
+          <span className="muted">n = {expression.fit.observations}</span>
+        </div>
+      )}
 
-      {showSettings && (
+      <DiagnosticList diagnostics={expression.diagnostics} />
+
+      {showSettings && expression.parameter && (
         <div className="expr-settings">
           <label>
-            Domain min
+            Slider min
+            <input
+              type="number"
+              value={expression.sliderMin}
+              onChange={(event) => onChange(expression.id, { sliderMin: Number.parseFloat(event.target.value) || 0 })}
+            />
+          </label>
+          <label>
+            Slider max
             <input
               type="number"
-              value={expression.domainMin}
-              onChange={(event) => onChange(expression.id, { domainMin: event.target.value })}
-              placeholder="auto"
+              value={expression.sliderMax}
+              onChange={(event) => onChange(expression.id, { sliderMax: Number.parseFloat(event.target.value) || 0 })}
             />
           </label>
           <label>
-            Domain max
+            Step
             <input
               type="number"
-              value={expression.domainMax}
-              onChange={(event) => onChange(expression.id, { domainMax: event.target.value })}
-              placeholder="auto"
+              min={0}
+              value={expression.sliderStep}
+              onChange={(event) => onChange(expression.id, { sliderStep: Number.parseFloat(event.target.value) || 0 })}
             />
           </label>
+        </div>
+      )}
+
+      {showSettings && !expression.parameter && (
+        <div className="expr-settings">
+          {expression.mode === 'point' && expression.points ? (
+            <>
+              {expression.points.map((point, pointIndex) => (
+                <label key={pointIndex}>
+                  Label ({formatNumber(point.x)}, {formatNumber(point.y)})
+                  <input
+                    value={expression.pointLabels[pointIndex] ?? ''}
+                    onChange={(event) => {
+                      const pointLabels = [...expression.pointLabels];
+                      pointLabels[pointIndex] = event.target.value;
+                      onChange(expression.id, { pointLabels });
+                    }}
+                    placeholder="LaTeX, e.g. E^*"
+                  />
+                </label>
+              ))}
+              <label>
+                Label anchor
+                <select
+                  value={expression.labelAnchor}
+                  onChange={(event) => onChange(expression.id, { labelAnchor: event.target.value as LabelAnchor })}
+                >
+                  {LABEL_ANCHORS.map((anchor) => (
+                    <option key={anchor} value={anchor}>
+                      {anchor}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          ) : expression.mode === 'parametric' || expression.mode === 'polar' ? (
+            <>
+              <label>
+                {expression.mode === 'polar' ? 'θ min' : 't min'}
+                <input
+                  type="number"
+                  value={expression.tMin}
+                  onChange={(event) => onChange(expression.id, { tMin: event.target.value })}
+                  placeholder="0"
+                />
+              </label>
+              <label>
+                {expression.mode === 'polar' ? 'θ max' : 't max'}
+                <input
+                  type="number"
+                  value={expression.tMax}
+                  onChange={(event) => onChange(expression.id, { tMax: event.target.value })}
+                  placeholder={expression.fullTurn === 360 ? '360' : '2π'}
+                />
+              </label>
+            </>
+          ) : (
+            <>
+              <label>
+                {expression.mode === 'mirrored' ? 'y min' : 'Domain min'}
+                <input
+                  type="number"
+                  value={expression.domainMin}
+                  onChange={(event) => onChange(expression.id, { domainMin: event.target.value })}
+                  placeholder="auto"
+                />
+              </label>
+              <label>
+                {expression.mode === 'mirrored' ? 'y max' : 'Domain max'}
+                <input
+                  type="number"
+                  value={expression.domainMax}
+                  onChange={(event) => onChange(expression.id, { domainMax: event.target.value })}
+                  placeholder="auto"
+                />
+              </label>
+            </>
+          )}
           <label>
             Samples ({expression.samples})
             <input
@@ -146,6 +269,50 @@ export default function ExpressionRow({
             />
             Dashed line
           </label>
+          {expression.mode === 'implicit' && (
+            <label>
+              TikZ export
+              <select
+                value={expression.implicitExport}
+                onChange={(event) =>
+                  onChange(expression.id, { implicitExport: event.target.value as ImplicitExportFormat })
+                }
+              >
+                <option value="coordinates">plot coordinates</option>
+                <option value="pgfplots">pgfplots contour</option>
+              </select>
+            </label>
+          )}
+          {expression.pieces && (
+            <label className="checkbox-row">
+              <input
+                type="checkbox"
+                checked={expression.endpointDots}
+                onChange={(event) => onChange(expression.id, { endpointDots: event.target.checked })}
+              />
+              Endpoint dots
+            </label>
+          )}
+          {expression.mode === 'explicit' && (
+            <label className="checkbox-row">
+              <input
+                type="checkbox"
+                checked={expression.pointsOfInterest}
+                onChange={(event) => onChange(expression.id, { pointsOfInterest: event.target.checked })}
+              />
+              Points of interest (approximate)
+            </label>
+          )}
+          {expression.mode === 'explicit' && expression.pointsOfInterest && (
+            <label className="checkbox-row">
+              <input
+                type="checkbox"
+                checked={expression.exportPointsOfInterest}
+                onChange={(event) => onChange(expression.id, { exportPointsOfInterest: event.target.checked })}
+              />
+              Include points of interest in TikZ
+            </label>
+          )}
         </div>
       )}
     </div>
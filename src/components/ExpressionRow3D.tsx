@@ -1,6 +1,9 @@
 import { useMemo, useState } from 'react';
 import type { Expression3D, PreparedExpression3D } from '../types';
 import { renderMathPreview } from '../lib/formatting';
+import DiagnosticList from './DiagnosticList';
+import ExpressionInput from './ExpressionInput';
+import ParameterSlider from './ParameterSlider';
 
 interface ExpressionRow3DProps {
   expression: PreparedExpression3D;
@@ -37,11 +40,11 @@ export default function ExpressionRow3D({
           title="Surface color"
           aria-label="Surface color"
         />
-        <input
-          className="expr-input"
-          placeholder="Type z=f(x,y), e.g. sin(sqrt(x^2+y^2))"
+        <ExpressionInput
+          placeholder="Type z=f(x,y) or parameter, e.g. sin(sqrt(x^2+y^2)), a=2"
           value={expression.rawInput}
-          onChange={(event) => onChange(expression.id, { rawInput: event.target.value })}
+          diagnostics={expression.diagnostics}
+          onChange={(rawInput) => onChange(expression.id, { rawInput })}
         />
         <div className="expr-actions">
           <button
@@ -73,9 +76,51 @@ export default function ExpressionRow3D({
 
       <div className="expr-preview" dangerouslySetInnerHTML={{ __html: previewHtml }} />
 
-      {expression.error && <div className="expr-error">{expression.error}</div>}
+      {expression.parameter && (
+        <ParameterSlider
+          parameter={expression.parameter}
+          min={expression.sliderMin}
+          max={expression.sliderMax}
+          step={expression.sliderStep}
+          onValueChange={(value) =>
+            onChange(expression.id, { rawInput: `${expression.parameter?.name ?? ''} = ${value}` })
+          }
+        />
+      )}
+
+      <DiagnosticList diagnostics={expression.diagnostics} />
+
+      {showSettings && expression.parameter && (
+        <div className="expr-settings">
+          <label>
+            Slider min
+            <input
+              type="number"
+              value={expression.sliderMin}
+              onChange={(event) => onChange(expression.id, { sliderMin: Number.parseFloat(event.target.value) || 0 })}
+            />
+          </label>
+          <label>
+            Slider max
+            <input
+              type="number"
+              value={expression.sliderMax}
+              onChange={(event) => onChange(expression.id, { sliderMax: Number.parseFloat(event.target.value) || 0 })}
+            />
+          </label>
+          <label>
+            Step
+            <input
+              type="number"
+              min={0}
+              value={expression.sliderStep}
+              onChange={(event) => onChange(expression.id, { sliderStep: Number.parseFloat(event.target.value) || 0 })}
+            />
+          </label>
+        </div>
+      )}
 
-      {showSettings && (
+      {showSettings && !expression.parameter && (
         <div className="expr-settings">
           <label>
             x min
@@ -5,20 +5,371 @@ import {
   type MouseEvent as ReactMouseEvent,
   type WheelEvent as ReactWheelEvent
 } from 'react';
-import type { GraphSettings, PreparedExpression, Viewport } from '../types';
-import { parseDomainBounds, sampleExpression, sampleImplicitContours } from '../lib/mathParser';
-import { buildTicks, panByPixels, screenToWorld, worldToScreen, zoomAt, zoomAtByAxis } from '../lib/viewport';
+import type {
+  GraphSettings,
+  LabelAnchor,
+  Point,
+  PointOfInterest,
+  PreparedDataTable,
+  PreparedExpression,
+  Viewport
+} from '../types';
+import { tableSegments } from '../lib/dataTable';
+import { formatNumber } from '../lib/formatting';
+import { isStrictRelation } from '../lib/mathParser';
+import { POINT_OF_INTEREST_LABELS } from '../lib/pointsOfInterest';
+import type { CurveGeometry, MathSources } from '../lib/plotSampling';
+import { createSamplingChannel, retainFailed, type SamplingChannel } from '../lib/samplingPool';
+import {
+  buildPolarGrid,
+  buildTicks,
+  panByPixels,
+  screenToWorld,
+  worldToScreen,
+  zoomAt,
+  zoomAtByAxis
+} from '../lib/viewport';
 
 interface GraphCanvasProps {
+  sources: MathSources;
   expressions: PreparedExpression[];
+  tables: PreparedDataTable[];
   viewport: Viewport;
   settings: GraphSettings;
+  intersections: Point[];
+  pointsOfInterest: Record<string, PointOfInterest[]>;
   onViewportChange: (next: Viewport) => void;
+  onPinPoint: (point: Point, color: string) => void;
+  onSamplingFailures: (failures: Record<string, string>) => void;
+}
+
+const REGION_ALPHA = 0.2;
+const ENDPOINT_RADIUS = 5;
+const POINT_RADIUS = 3;
+const MARKER_RADIUS = 6;
+const MARKER_HIT_RADIUS = 10;
+const POINT_OF_INTEREST_RADIUS = 4;
+const TRACE_SNAP_SLOP = 2;
+const CLICK_SLOP = 4;
+
+interface TracePoint extends Point {
+  color: string;
+}
+
+interface TraceCandidate {
+  expr: PreparedExpression;
+  point: Point;
+  onSegment: boolean;
+}
+
+interface MarkerLayer {
+  intersections: Point[];
+  labelled: Set<string>;
+  pointsOfInterest: Record<string, PointOfInterest[]>;
+  hovered: PointOfInterest | null;
+  trace: TracePoint | null;
+}
+
+function pointKey(point: Point): string {
+  return `${formatNumber(point.x)}, ${formatNumber(point.y)}`;
+}
+
+function closestOnSegment(
+  a: { px: number; py: number },
+  b: { px: number; py: number },
+  px: number,
+  py: number
+): { px: number; py: number } {
+  const length = (b.px - a.px) ** 2 + (b.py - a.py) ** 2;
+  const s = length > 0 ? ((px - a.px) * (b.px - a.px) + (py - a.py) * (b.py - a.py)) / length : 0;
+  const clamped = Math.max(0, Math.min(1, s));
+  return { px: a.px + clamped * (b.px - a.px), py: a.py + clamped * (b.py - a.py) };
+}
+
+// Exact value of an explicit or mirrored row at the parameter of a point traced on its polyline.
+function refinedTracePoint(expr: PreparedExpression, point: Point): Point {
+  if (!expr.evaluator || (expr.mode !== 'explicit' && expr.mode !== 'mirrored')) {
+    return point;
+  }
+  const mirrored = expr.mode === 'mirrored';
+  const value = expr.evaluator(mirrored ? point.y : point.x);
+  return value === null ? point : mirrored ? { x: value, y: point.y } : { x: point.x, y: value };
+}
+
+function tracePoint(
+  expressions: PreparedExpression[],
+  geometry: Record<string, CurveGeometry | null>,
+  px: number,
+  py: number,
+  width: number,
+  height: number,
+  viewport: Viewport
+): TracePoint | null {
+  let nearest: TraceCandidate | null = null;
+  let nearestDistance = Number.POSITIVE_INFINITY;
+
+  const consider = (expr: PreparedExpression, screen: { px: number; py: number }, onSegment: boolean) => {
+    const distance = Math.hypot(screen.px - px, screen.py - py);
+    if (distance < nearestDistance) {
+      nearest = { expr, point: screenToWorld(screen.px, screen.py, width, height, viewport), onSegment };
+      nearestDistance = distance;
+    }
+  };
+
+  expressions.forEach((expr) => {
+    const curve = geometry[expr.id];
+    if (!expr.visible || expr.error || !curve) {
+      return;
+    }
+
+    curve.segments.forEach((segment) => {
+      const screen = segment.map((point) => worldToScreen(point.x, point.y, width, height, viewport));
+      screen.forEach((a, index) => consider(expr, closestOnSegment(a, screen[index + 1] ?? a, px, py), true));
+    });
+    curve.endpoints
+      .filter((endpoint) => endpoint.closed)
+      .forEach((endpoint) => consider(expr, worldToScreen(endpoint.x, endpoint.y, width, height, viewport), false));
+  });
+
+  if (!nearest) {
+    return null;
+  }
+
+  // The exact value replaces the chord point unless it lands elsewhere, e.g. across a jump.
+  const { expr, point, onSegment } = nearest as TraceCandidate;
+  const refined = onSegment ? refinedTracePoint(expr, point) : point;
+  const chord = worldToScreen(point.x, point.y, width, height, viewport);
+  const exact = worldToScreen(refined.x, refined.y, width, height, viewport);
+  const traced = Math.hypot(exact.px - chord.px, exact.py - chord.py) <= TRACE_SNAP_SLOP ? refined : point;
+  const inView =
+    traced.x >= viewport.xMin && traced.x <= viewport.xMax && traced.y >= viewport.yMin && traced.y <= viewport.yMax;
+  return inView ? { ...traced, color: expr.color } : null;
+}
+
+function drawTrace(
+  ctx: CanvasRenderingContext2D,
+  trace: TracePoint,
+  width: number,
+  height: number,
+  viewport: Viewport
+) {
+  const { px, py } = worldToScreen(trace.x, trace.y, width, height, viewport);
+  const radius = MARKER_RADIUS * window.devicePixelRatio;
+
+  ctx.strokeStyle = trace.color;
+  ctx.lineWidth = window.devicePixelRatio;
+  ctx.setLineDash([6, 6]);
+  ctx.beginPath();
+  ctx.moveTo(0, py);
+  ctx.lineTo(width, py);
+  ctx.moveTo(px, 0);
+  ctx.lineTo(px, height);
+  ctx.stroke();
+
+  ctx.setLineDash([]);
+  ctx.fillStyle = trace.color;
+  ctx.beginPath();
+  ctx.arc(px, py, radius, 0, 2 * Math.PI);
+  ctx.fill();
+
+  ctx.fillStyle = '#111827';
+  drawPointLabel(ctx, `(${pointKey(trace)})`, px, py, 'above right', radius + 4);
+}
+
+function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const cleaned = hex.replace('#', '');
+  const full = cleaned.length === 3 ? cleaned.split('').map((c) => c + c).join('') : cleaned;
+
+  const r = Number.parseInt(full.slice(0, 2), 16);
+  const g = Number.parseInt(full.slice(2, 4), 16);
+  const b = Number.parseInt(full.slice(4, 6), 16);
+
+  return { r, g, b };
+}
+
+function rgbaFromHex(hex: string, alpha: number): string {
+  const { r, g, b } = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+function fillBetweenCurveAndEdge(
+  ctx: CanvasRenderingContext2D,
+  segments: Point[][],
+  edgeY: number,
+  width: number,
+  height: number,
+  viewport: Viewport
+) {
+  const ySpan = viewport.yMax - viewport.yMin;
+  const clampY = (y: number) => Math.max(viewport.yMin - ySpan, Math.min(viewport.yMax + ySpan, y));
+
+  ctx.beginPath();
+  segments.forEach((segment) => {
+    if (segment.length < 2) {
+      return;
+    }
+
+    const first = segment[0];
+    const last = segment[segment.length - 1];
+    const start = worldToScreen(first.x, edgeY, width, height, viewport);
+    ctx.moveTo(start.px, start.py);
+
+    segment.forEach((p) => {
+      const { px, py } = worldToScreen(p.x, clampY(p.y), width, height, viewport);
+      ctx.lineTo(px, py);
+    });
+
+    const end = worldToScreen(last.x, edgeY, width, height, viewport);
+    ctx.lineTo(end.px, end.py);
+    ctx.closePath();
+  });
+  ctx.fill();
+}
+
+function drawPointLabel(
+  ctx: CanvasRenderingContext2D,
+  label: string,
+  px: number,
+  py: number,
+  anchor: LabelAnchor,
+  offset: number
+) {
+  const horizontal = anchor.includes('left') ? -1 : anchor.includes('right') ? 1 : 0;
+  const vertical = anchor.includes('above') ? -1 : anchor.includes('below') ? 1 : 0;
+
+  ctx.textAlign = horizontal < 0 ? 'right' : horizontal > 0 ? 'left' : 'center';
+  ctx.textBaseline = vertical < 0 ? 'bottom' : vertical > 0 ? 'top' : 'middle';
+  ctx.fillText(label, px + horizontal * offset, py + vertical * offset);
+}
+
+function strokeSegments(
+  ctx: CanvasRenderingContext2D,
+  segments: Point[][],
+  width: number,
+  height: number,
+  viewport: Viewport
+) {
+  segments.forEach((segment) => {
+    if (segment.length < 2) {
+      return;
+    }
+
+    ctx.beginPath();
+    segment.forEach((p, index) => {
+      const { px, py } = worldToScreen(p.x, p.y, width, height, viewport);
+      if (index === 0) {
+        ctx.moveTo(px, py);
+      } else {
+        ctx.lineTo(px, py);
+      }
+    });
+    ctx.stroke();
+  });
+}
+
+function drawTable(
+  ctx: CanvasRenderingContext2D,
+  table: PreparedDataTable,
+  width: number,
+  height: number,
+  viewport: Viewport
+) {
+  ctx.strokeStyle = table.color;
+  ctx.fillStyle = table.color;
+  ctx.lineWidth = table.lineWidth * window.devicePixelRatio;
+  ctx.setLineDash([]);
+
+  if (table.plotStyle !== 'markers') {
+    strokeSegments(ctx, tableSegments(table.points), width, height, viewport);
+  }
+
+  if (table.plotStyle === 'lines') {
+    return;
+  }
+
+  const radius = (POINT_RADIUS + table.lineWidth) * window.devicePixelRatio;
+  table.points.forEach((point) => {
+    if (!point) {
+      return;
+    }
+    const { px, py } = worldToScreen(point.x, point.y, width, height, viewport);
+    ctx.beginPath();
+    ctx.arc(px, py, radius, 0, 2 * Math.PI);
+    ctx.fill();
+  });
+}
+
+function drawMarkers(
+  ctx: CanvasRenderingContext2D,
+  expressions: PreparedExpression[],
+  { intersections, labelled, pointsOfInterest, hovered, trace }: MarkerLayer,
+  width: number,
+  height: number,
+  viewport: Viewport
+) {
+  ctx.setLineDash([]);
+  ctx.font = '22px Manrope, sans-serif';
+
+  if (trace) {
+    drawTrace(ctx, trace, width, height, viewport);
+  }
+
+  ctx.lineWidth = 1.5 * window.devicePixelRatio;
+  ctx.strokeStyle = '#ffffff';
+  expressions.forEach((expr) => {
+    const points = pointsOfInterest[expr.id] ?? [];
+    ctx.fillStyle = expr.color;
+    points.forEach((point) => {
+      const { px, py } = worldToScreen(point.x, point.y, width, height, viewport);
+      const scale = point === hovered ? 1.6 : 1;
+      ctx.beginPath();
+      ctx.arc(px, py, POINT_OF_INTEREST_RADIUS * scale * window.devicePixelRatio, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.stroke();
+    });
+  });
+
+  if (hovered) {
+    const { px, py } = worldToScreen(hovered.x, hovered.y, width, height, viewport);
+    const key = pointKey(hovered);
+    const kinds = Object.values(pointsOfInterest)
+      .flat()
+      .filter((point) => pointKey(point) === key)
+      .map((point) => POINT_OF_INTEREST_LABELS[point.kind]);
+    const label = `${[...new Set([POINT_OF_INTEREST_LABELS[hovered.kind], ...kinds])].join(', ')} ≈ (${key})`;
+    ctx.fillStyle = '#111827';
+    drawPointLabel(ctx, label, px, py, 'above right', (POINT_OF_INTEREST_RADIUS * 1.6 + 4) * window.devicePixelRatio);
+  }
+
+  const radius = MARKER_RADIUS * window.devicePixelRatio;
+  ctx.lineWidth = 2 * window.devicePixelRatio;
+  ctx.strokeStyle = '#111827';
+
+  intersections.forEach((marker) => {
+    const { px, py } = worldToScreen(marker.x, marker.y, width, height, viewport);
+    ctx.beginPath();
+    ctx.arc(px, py, radius, 0, 2 * Math.PI);
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.stroke();
+
+    const key = pointKey(marker);
+    if (labelled.has(key)) {
+      ctx.fillStyle = '#111827';
+      drawPointLabel(ctx, `(${key})`, px, py, 'above right', radius + 4);
+    }
+  });
+
+  ctx.textAlign = 'start';
+  ctx.textBaseline = 'alphabetic';
 }
 
 function drawGraph(
   canvas: HTMLCanvasElement,
   expressions: PreparedExpression[],
+  geometry: Record<string, CurveGeometry | null>,
+  tables: PreparedDataTable[],
+  markers: MarkerLayer,
   viewport: Viewport,
   settings: GraphSettings
 ) {
@@ -34,7 +385,29 @@ function drawGraph(
   ctx.fillStyle = '#f7fafc';
   ctx.fillRect(0, 0, width, height);
 
-  if (settings.showGrid) {
+  if (settings.showGrid && settings.polarGrid) {
+    const { radii, angles, maxRadius } = buildPolarGrid(viewport, 12);
+    const origin = worldToScreen(0, 0, width, height, viewport);
+    const pixelsPerUnit = width / (viewport.xMax - viewport.xMin);
+    const yScale = height / (viewport.yMax - viewport.yMin);
+
+    ctx.strokeStyle = '#d9e3ec';
+    ctx.lineWidth = 1;
+
+    radii.forEach((r) => {
+      ctx.beginPath();
+      ctx.ellipse(origin.px, origin.py, r * pixelsPerUnit, r * yScale, 0, 0, 2 * Math.PI);
+      ctx.stroke();
+    });
+
+    angles.forEach((angle) => {
+      const end = worldToScreen(maxRadius * Math.cos(angle), maxRadius * Math.sin(angle), width, height, viewport);
+      ctx.beginPath();
+      ctx.moveTo(origin.px, origin.py);
+      ctx.lineTo(end.px, end.py);
+      ctx.stroke();
+    });
+  } else if (settings.showGrid) {
     const xTicks = buildTicks(viewport.xMin, viewport.xMax, 16);
     const yTicks = buildTicks(viewport.yMin, viewport.yMax, 12);
 
@@ -126,59 +499,76 @@ function drawGraph(
     ctx.lineWidth = expr.lineWidth * window.devicePixelRatio;
     ctx.setLineDash(expr.dashed ? [10, 8] : []);
 
-    if (expr.mode === 'implicit' && expr.implicitEvaluator) {
-      const segments = sampleImplicitContours(expr.implicitEvaluator, viewport, expr.samples);
-      segments.forEach((segment) => {
-        if (segment.length < 2) {
-          return;
-        }
+    if (expr.mode === 'point' && expr.points) {
+      const radius = (POINT_RADIUS + expr.lineWidth) * window.devicePixelRatio;
+      ctx.fillStyle = expr.color;
+      ctx.font = '22px Manrope, sans-serif';
 
+      expr.points.forEach((point, index) => {
+        const { px, py } = worldToScreen(point.x, point.y, width, height, viewport);
         ctx.beginPath();
-        segment.forEach((p, index) => {
-          const { px, py } = worldToScreen(p.x, p.y, width, height, viewport);
-          if (index === 0) {
-            ctx.moveTo(px, py);
-          } else {
-            ctx.lineTo(px, py);
-          }
-        });
-        ctx.stroke();
+        ctx.arc(px, py, radius, 0, 2 * Math.PI);
+        ctx.fill();
+
+        const label = expr.pointLabels[index]?.trim();
+        if (label) {
+          drawPointLabel(ctx, label, px, py, expr.labelAnchor, radius + 4);
+        }
       });
+
+      ctx.textAlign = 'start';
+      ctx.textBaseline = 'alphabetic';
       return;
     }
 
-    if (!expr.evaluator) {
+    const shape = geometry[expr.id];
+    if (!shape) {
       return;
     }
 
-    const domain = parseDomainBounds(expr.domainMin, expr.domainMax, viewport);
-    const xMin = Math.max(domain.xMin, viewport.xMin);
-    const xMax = Math.min(domain.xMax, viewport.xMax);
+    if (expr.mode === 'inequality' && expr.inequality) {
+      const { relation, boundary } = expr.inequality;
+      ctx.fillStyle = rgbaFromHex(expr.color, REGION_ALPHA);
+      ctx.setLineDash(isStrictRelation(relation) || expr.dashed ? [10, 8] : []);
+
+      if (boundary === 'implicit') {
+        ctx.beginPath();
+        shape.cells.forEach((cell) => {
+          const topLeft = worldToScreen(cell.x0, cell.y1, width, height, viewport);
+          const bottomRight = worldToScreen(cell.x1, cell.y0, width, height, viewport);
+          ctx.rect(topLeft.px, topLeft.py, bottomRight.px - topLeft.px, bottomRight.py - topLeft.py);
+        });
+        ctx.fill();
+      } else {
+        const edgeY = relation === '<' || relation === '<=' ? viewport.yMin : viewport.yMax;
+        fillBetweenCurveAndEdge(ctx, shape.segments, edgeY, width, height, viewport);
+      }
 
-    if (xMax <= xMin) {
+      strokeSegments(ctx, shape.segments, width, height, viewport);
       return;
     }
 
-    const segments = sampleExpression(expr.evaluator, xMin, xMax, expr.samples, viewport);
-
-    segments.forEach((segment) => {
-      if (segment.length < 2) {
-        return;
-      }
+    strokeSegments(ctx, shape.segments, width, height, viewport);
 
+    const radius = ENDPOINT_RADIUS * window.devicePixelRatio;
+    ctx.setLineDash([]);
+    shape.endpoints.forEach((endpoint) => {
+      const { px, py } = worldToScreen(endpoint.x, endpoint.y, width, height, viewport);
       ctx.beginPath();
-      segment.forEach((p, index) => {
-        const { px, py } = worldToScreen(p.x, p.y, width, height, viewport);
-        if (index === 0) {
-          ctx.moveTo(px, py);
-        } else {
-          ctx.lineTo(px, py);
-        }
-      });
+      ctx.arc(px, py, radius, 0, 2 * Math.PI);
+      ctx.fillStyle = endpoint.closed ? expr.color : '#ffffff';
+      ctx.fill();
       ctx.stroke();
     });
   });
 
+  tables.forEach((table) => {
+    if (table.visible && !table.error) {
+      drawTable(ctx, table, width, height, viewport);
+    }
+  });
+
+  drawMarkers(ctx, expressions, markers, width, height, viewport);
   ctx.setLineDash([]);
 }
 
@@ -194,14 +584,31 @@ function normalizeWheelDelta(event: ReactWheelEvent<HTMLCanvasElement>, height:
   return dominantDelta * modeScale;
 }
 
-export default function GraphCanvas({ expressions, viewport, settings, onViewportChange }: GraphCanvasProps) {
+export default function GraphCanvas({
+  sources,
+  expressions,
+  tables,
+  viewport,
+  settings,
+  intersections,
+  pointsOfInterest,
+  onViewportChange,
+  onPinPoint,
+  onSamplingFailures
+}: GraphCanvasProps) {
   const frameRef = useRef<HTMLDivElement | null>(null);
   const wrapperRef = useRef<HTMLDivElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const channelRef = useRef<SamplingChannel | null>(null);
   const [size, setSize] = useState({ width: 560, height: 560 });
+  const [geometry, setGeometry] = useState<Record<string, CurveGeometry | null>>({});
+  const [labelled, setLabelled] = useState<Set<string>>(() => new Set());
+  const [hovered, setHovered] = useState<PointOfInterest | null>(null);
+  const [trace, setTrace] = useState<TracePoint | null>(null);
 
   const draggingRef = useRef(false);
   const lastPosRef = useRef({ x: 0, y: 0 });
+  const pressPosRef = useRef({ x: 0, y: 0 });
 
   useEffect(() => {
     const frame = frameRef.current;
@@ -222,6 +629,20 @@ export default function GraphCanvas({ expressions, viewport, settings, onViewpor
     return () => observer.disconnect();
   }, []);
 
+  useEffect(() => {
+    const channel = createSamplingChannel();
+    channelRef.current = channel;
+    return () => channel.dispose();
+  }, []);
+
+  useEffect(() => {
+    const rows = expressions.filter((expr) => expr.visible && !expr.error && expr.mode !== 'point');
+    channelRef.current?.sampleCurves(sources, rows, viewport, (results, failures) => {
+      setGeometry((prev) => retainFailed(prev, results, failures));
+      onSamplingFailures(failures);
+    });
+  }, [expressions, onSamplingFailures, sources, viewport]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) {
@@ -234,8 +655,21 @@ export default function GraphCanvas({ expressions, viewport, settings, onViewpor
     canvas.style.width = `${size.width}px`;
     canvas.style.height = `${size.height}px`;
 
-    drawGraph(canvas, expressions, viewport, settings);
-  }, [expressions, settings, size, viewport]);
+    const markers = { intersections, labelled, pointsOfInterest, hovered, trace: settings.trace ? trace : null };
+    drawGraph(canvas, expressions, geometry, tables, markers, viewport, settings);
+  }, [
+    expressions,
+    geometry,
+    hovered,
+    intersections,
+    labelled,
+    pointsOfInterest,
+    settings,
+    size,
+    tables,
+    trace,
+    viewport
+  ]);
 
   useEffect(() => {
     const onMouseMove = (event: MouseEvent) => {
@@ -263,11 +697,65 @@ export default function GraphCanvas({ expressions, viewport, settings, onViewpor
     };
   }, [onViewportChange, size.height, size.width, viewport]);
 
+  const markerAt = <T extends Point>(event: ReactMouseEvent<HTMLCanvasElement>, markers: T[]): T | null => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const hit = markers.find((marker) => {
+      const { px, py } = worldToScreen(marker.x, marker.y, size.width, size.height, viewport);
+      return Math.hypot(px - (event.clientX - rect.left), py - (event.clientY - rect.top)) <= MARKER_HIT_RADIUS;
+    });
+    return hit ?? null;
+  };
+
   const onMouseDown = (event: ReactMouseEvent<HTMLCanvasElement>) => {
+    pressPosRef.current = { x: event.clientX, y: event.clientY };
+    const hit = markerAt(event, intersections);
+    if (hit) {
+      const key = pointKey(hit);
+      setLabelled((prev) => {
+        const next = new Set(prev);
+        if (!next.delete(key)) {
+          next.add(key);
+        }
+        return next;
+      });
+      return;
+    }
+
+    setHovered(null);
+    setTrace(null);
     draggingRef.current = true;
     lastPosRef.current = { x: event.clientX, y: event.clientY };
   };
 
+  const onHover = (event: ReactMouseEvent<HTMLCanvasElement>) => {
+    if (draggingRef.current) {
+      return;
+    }
+
+    setHovered(markerAt(event, Object.values(pointsOfInterest).flat()));
+    if (settings.trace) {
+      const rect = event.currentTarget.getBoundingClientRect();
+      const px = event.clientX - rect.left;
+      const py = event.clientY - rect.top;
+      setTrace(tracePoint(expressions, geometry, px, py, size.width, size.height, viewport));
+    }
+  };
+
+  const onClick = (event: ReactMouseEvent<HTMLCanvasElement>) => {
+    const moved = Math.hypot(event.clientX - pressPosRef.current.x, event.clientY - pressPosRef.current.y);
+    if (!settings.trace || moved > CLICK_SLOP || markerAt(event, intersections)) {
+      return;
+    }
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const px = event.clientX - rect.left;
+    const py = event.clientY - rect.top;
+    const traced = tracePoint(expressions, geometry, px, py, size.width, size.height, viewport);
+    if (traced) {
+      onPinPoint({ x: traced.x, y: traced.y }, traced.color);
+    }
+  };
+
   const onWheel = (event: ReactWheelEvent<HTMLCanvasElement>) => {
     event.preventDefault();
     const canvas = canvasRef.current;
@@ -301,7 +789,18 @@ export default function GraphCanvas({ expressions, viewport, settings, onViewpor
   return (
     <div className="graph-frame" ref={frameRef}>
       <div className="graph-wrap" ref={wrapperRef} style={{ width: `${size.width}px`, height: `${size.height}px` }}>
-        <canvas ref={canvasRef} onMouseDown={onMouseDown} onWheel={onWheel} />
+        <canvas
+          ref={canvasRef}
+          className={settings.trace ? 'is-tracing' : undefined}
+          onMouseDown={onMouseDown}
+          onMouseMove={onHover}
+          onMouseLeave={() => {
+            setHovered(null);
+            setTrace(null);
+          }}
+          onClick={onClick}
+          onWheel={onWheel}
+        />
       </div>
     </div>
   );
@@ -6,15 +6,18 @@ import {
   type WheelEvent as ReactWheelEvent
 } from 'react';
 import type { GraphSettings3D, PreparedExpression3D, Viewport3D } from '../types';
-import { parseSurfaceDomainBounds } from '../lib/mathParser3d';
+import type { MathSources, SurfaceGrid } from '../lib/plotSampling';
+import { createSamplingChannel, retainFailed, type SamplingChannel } from '../lib/samplingPool';
 import { buildTicks } from '../lib/viewport';
 import { rotateViewport3D, scaleBounds3D, zoomCamera3D } from '../lib/viewport3d';
 
 interface GraphCanvas3DProps {
+  sources: MathSources;
   expressions: PreparedExpression3D[];
   viewport: Viewport3D;
   settings: GraphSettings3D;
   onViewportChange: (next: Viewport3D) => void;
+  onSamplingFailures: (failures: Record<string, string>) => void;
 }
 
 interface ScreenPoint {
@@ -127,6 +130,7 @@ function createProjector(viewport: Viewport3D, width: number, height: number) {
 function drawGraph3D(
   canvas: HTMLCanvasElement,
   expressions: PreparedExpression3D[],
+  grids: Record<string, SurfaceGrid | null>,
   viewport: Viewport3D,
   settings: GraphSettings3D
 ) {
@@ -256,47 +260,18 @@ function drawGraph3D(
   }
 
   expressions.forEach((expr) => {
-    if (!expr.visible || !expr.evaluator || expr.error) {
+    const grid = grids[expr.id];
+    if (!expr.visible || expr.error || !grid) {
       return;
     }
 
-    const xDomain = parseSurfaceDomainBounds(expr.domainXMin, expr.domainXMax, viewport.xMin, viewport.xMax);
-    const yDomain = parseSurfaceDomainBounds(expr.domainYMin, expr.domainYMax, viewport.yMin, viewport.yMax);
-
-    const xMin = Math.max(xDomain.min, viewport.xMin);
-    const xMax = Math.min(xDomain.max, viewport.xMax);
-    const yMin = Math.max(yDomain.min, viewport.yMin);
-    const yMax = Math.min(yDomain.max, viewport.yMax);
-
-    if (xMax <= xMin || yMax <= yMin) {
-      return;
-    }
-
-    const resolution = Math.max(12, Math.min(80, Math.round(Math.sqrt(expr.samples) * 1.35)));
-    const xCount = resolution;
-    const yCount = resolution;
-
-    const xStep = (xMax - xMin) / xCount;
-    const yStep = (yMax - yMin) / yCount;
-
-    const grid: Array<Array<WorldPoint | null>> = Array.from({ length: yCount + 1 }, () =>
-      Array.from({ length: xCount + 1 }, () => null)
-    );
-
-    for (let yi = 0; yi <= yCount; yi += 1) {
-      const y = yMin + yi * yStep;
-
-      for (let xi = 0; xi <= xCount; xi += 1) {
-        const x = xMin + xi * xStep;
-        const z = expr.evaluator(x, y);
-
-        if (z === null || !Number.isFinite(z) || Math.abs(z) > 1e7 || z < viewport.zMin || z > viewport.zMax) {
-          continue;
-        }
-
-        grid[yi][xi] = { x, y, z };
-      }
-    }
+    const { xCount, yCount } = grid;
+    const xStep = (grid.xMax - grid.xMin) / xCount;
+    const yStep = (grid.yMax - grid.yMin) / yCount;
+    const pointAt = (xi: number, yi: number): WorldPoint | null => {
+      const z = grid.z[yi * (xCount + 1) + xi];
+      return Number.isNaN(z) ? null : { x: grid.xMin + xi * xStep, y: grid.yMin + yi * yStep, z };
+    };
 
     const style: SegmentStyle = {
       color: expr.color,
@@ -308,10 +283,10 @@ function drawGraph3D(
 
     for (let yi = 0; yi < yCount; yi += 1) {
       for (let xi = 0; xi < xCount; xi += 1) {
-        const p00 = grid[yi][xi];
-        const p10 = grid[yi][xi + 1];
-        const p11 = grid[yi + 1][xi + 1];
-        const p01 = grid[yi + 1][xi];
+        const p00 = pointAt(xi, yi);
+        const p10 = pointAt(xi + 1, yi);
+        const p11 = pointAt(xi + 1, yi + 1);
+        const p01 = pointAt(xi, yi + 1);
 
         if (!p00 || !p10 || !p11 || !p01) {
           continue;
@@ -323,8 +298,8 @@ function drawGraph3D(
 
     for (let yi = 0; yi <= yCount; yi += 1) {
       for (let xi = 0; xi < xCount; xi += 1) {
-        const a = grid[yi][xi];
-        const b = grid[yi][xi + 1];
+        const a = pointAt(xi, yi);
+        const b = pointAt(xi + 1, yi);
         if (!a || !b) {
           continue;
         }
@@ -335,8 +310,8 @@ function drawGraph3D(
 
     for (let xi = 0; xi <= xCount; xi += 1) {
       for (let yi = 0; yi < yCount; yi += 1) {
-        const a = grid[yi][xi];
-        const b = grid[yi + 1][xi];
+        const a = pointAt(xi, yi);
+        const b = pointAt(xi, yi + 1);
         if (!a || !b) {
           continue;
         }
@@ -408,11 +383,21 @@ function drawGraph3D(
   }
 }
 
-export default function GraphCanvas3D({ expressions, viewport, settings, onViewportChange }: GraphCanvas3DProps) {
+export default function GraphCanvas3D({
+  sources,
+  expressions,
+  viewport,
+  settings,
+  onViewportChange,
+  onSamplingFailures
+}: GraphCanvas3DProps) {
   const frameRef = useRef<HTMLDivElement | null>(null);
   const wrapperRef = useRef<HTMLDivElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const channelRef = useRef<SamplingChannel | null>(null);
   const [size, setSize] = useState({ width: 640, height: 640 });
+  const [grids, setGrids] = useState<Record<string, SurfaceGrid | null>>({});
+  const { xMin, xMax, yMin, yMax, zMin, zMax } = viewport;
 
   const draggingRef = useRef(false);
   const lastPosRef = useRef({ x: 0, y: 0 });
@@ -436,6 +421,21 @@ export default function GraphCanvas3D({ expressions, viewport, settings, onViewp
     return () => observer.disconnect();
   }, []);
 
+  useEffect(() => {
+    const channel = createSamplingChannel();
+    channelRef.current = channel;
+    return () => channel.dispose();
+  }, []);
+
+  useEffect(() => {
+    const rows = expressions.filter((expr) => expr.visible && !expr.error);
+    const bounds = { xMin, xMax, yMin, yMax, zMin, zMax };
+    channelRef.current?.sampleSurfaces(sources, rows, bounds, (results, failures) => {
+      setGrids((prev) => retainFailed(prev, results, failures));
+      onSamplingFailures(failures);
+    });
+  }, [expressions, onSamplingFailures, sources, xMin, xMax, yMin, yMax, zMin, zMax]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) {
@@ -448,8 +448,8 @@ export default function GraphCanvas3D({ expressions, viewport, settings, onViewp
     canvas.style.width = `${size.width}px`;
     canvas.style.height = `${size.height}px`;
 
-    drawGraph3D(canvas, expressions, viewport, settings);
-  }, [expressions, settings, size, viewport]);
+    drawGraph3D(canvas, expressions, grids, viewport, settings);
+  }, [expressions, grids, settings, size, viewport]);
 
   useEffect(() => {
     const onMouseMove = (event: MouseEvent) => {
@@ -0,0 +1,58 @@
+import type { IntersectionQuery, Point, PreparedExpression } from '../types';
+import { formatNumber } from '../lib/formatting';
+import { canIntersect } from '../lib/intersections';
+
+interface IntersectionToolProps {
+  expressions: PreparedExpression[];
+  query: IntersectionQuery;
+  intersections: Point[];
+  onChange: (patch: Partial<IntersectionQuery>) => void;
+}
+
+export default function IntersectionTool({ expressions, query, intersections, onChange }: IntersectionToolProps) {
+  const candidates = expressions
+    .map((expr, index) => ({ expr, index }))
+    .filter(({ expr }) => expr.visible && canIntersect(expr));
+  const ready = query.firstId !== '' && query.secondId !== '' && query.firstId !== query.secondId;
+
+  const rowSelect = (label: string, value: string, key: 'firstId' | 'secondId') => (
+    <label>
+      {label}
+      <select value={value} onChange={(event) => onChange({ [key]: event.target.value })}>
+        <option value="">Choose</option>
+        {candidates.map(({ expr, index }) => (
+          <option key={expr.id} value={expr.id}>
+            Row {index + 1}: {expr.rawInput}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="intersection-tool">
+      <span className="bounds-title">Intersections</span>
+      {rowSelect('First', query.firstId, 'firstId')}
+      {rowSelect('Second', query.secondId, 'secondId')}
+      <label className="checkbox-row">
+        <input
+          type="checkbox"
+          checked={query.exported}
+          onChange={(event) => onChange({ exported: event.target.checked })}
+        />
+        Include in TikZ export
+      </label>
+      {ready && intersections.length === 0 ? <span className="bounds-hint">No intersections in view.</span> : null}
+      {intersections.length > 0 && (
+        <ul className="intersection-list">
+          {intersections.map((point, index) => (
+            <li key={index}>
+              ({formatNumber(point.x)}, {formatNumber(point.y)})
+            </li>
+          ))}
+        </ul>
+      )}
+      <span className="bounds-hint">Click a marker on the graph to show its coordinates.</span>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ParameterDefinition } from '../types';
+import { formatNumber } from '../lib/formatting';
+
+interface ParameterSliderProps {
+  parameter: ParameterDefinition;
+  min: number;
+  max: number;
+  step: number;
+  onValueChange: (value: number) => void;
+}
+
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+function snapToStep(value: number, min: number, step: number): number {
+  if (step <= 0) {
+    return value;
+  }
+  const snapped = min + Math.round((value - min) / step) * step;
+  return Number(snapped.toPrecision(12));
+}
+
+export default function ParameterSlider({ parameter, min, max, step, onValueChange }: ParameterSliderProps) {
+  const [playing, setPlaying] = useState(false);
+  const valueRef = useRef(parameter.value);
+  const directionRef = useRef<1 | -1>(1);
+  const onValueChangeRef = useRef(onValueChange);
+
+  valueRef.current = parameter.value;
+  onValueChangeRef.current = onValueChange;
+
+  const low = Math.min(min, max);
+  const high = Math.max(min, max);
+  const safeStep = step > 0 ? step : (high - low) / 100 || 0.1;
+
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+
+    let frame = 0;
+    let lastTime = 0;
+
+    const tick = (time: number) => {
+      frame = window.requestAnimationFrame(tick);
+      if (time - lastTime < FRAME_INTERVAL_MS) {
+        return;
+      }
+      lastTime = time;
+
+      let next = valueRef.current + directionRef.current * safeStep;
+      if (next > high) {
+        next = high;
+        directionRef.current = -1;
+      } else if (next < low) {
+        next = low;
+        directionRef.current = 1;
+      }
+
+      valueRef.current = snapToStep(next, low, safeStep);
+      onValueChangeRef.current(valueRef.current);
+    };
+
+    frame = window.requestAnimationFrame(tick);
+    return () => window.cancelAnimationFrame(frame);
+  }, [high, low, playing, safeStep]);
+
+  return (
+    <div className="param-slider">
+      <button
+        className={`icon-btn play-btn ${playing ? 'is-on' : ''}`}
+        onClick={() => setPlaying((value) => !value)}
+        title={playing ? `Pause ${parameter.name}` : `Animate ${parameter.name}`}
+      >
+        {playing ? 'II' : '▶'}
+      </button>
+      <span className="param-bound">{formatNumber(low)}</span>
+      <input
+        type="range"
+        min={low}
+        max={high}
+        step={safeStep}
+        value={Math.max(low, Math.min(high, parameter.value))}
+        onChange={(event) => onValueChange(snapToStep(Number.parseFloat(event.target.value), low, safeStep))}
+      />
+      <span className="param-bound">{formatNumber(high)}</span>
+    </div>
+  );
+}
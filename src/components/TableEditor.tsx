@@ -0,0 +1,189 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import type { DataTable, PreparedDataTable, TableExportFormat, TablePlotStyle } from '../types';
+import { formatNumber } from '../lib/formatting';
+
+interface TableEditorProps {
+  table: PreparedDataTable;
+  tableNumber: number;
+  onChange: (id: string, patch: Partial<DataTable>) => void;
+  onRemove: (id: string) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export default function TableEditor({ table, tableNumber, onChange, onRemove }: TableEditorProps) {
+  const [showSettings, setShowSettings] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const rowCount = table.columns[0]?.values.length ?? 0;
+  const previewColumns = table.columns.slice(0, 4);
+
+  const onFileSelected = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        onChange(table.id, { csvText: reader.result });
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="expr-row table-row">
+      <div className="expr-topline">
+        <button
+          className="swatch"
+          style={{ backgroundColor: table.color }}
+          title="Table color"
+          aria-label="Table color"
+        />
+        <span className="table-title">Table {tableNumber}</span>
+        <div className="expr-actions">
+          <button
+            className={`icon-btn visibility-btn ${table.visible ? 'is-on' : ''}`}
+            onClick={() => onChange(table.id, { visible: !table.visible })}
+            title={table.visible ? 'Hide table' : 'Show table'}
+          >
+            {table.visible ? 'ON' : 'OFF'}
+          </button>
+          <button className="icon-btn" onClick={() => fileInputRef.current?.click()} title="Import CSV file">
+            CSV
+          </button>
+          <button className="icon-btn" onClick={() => setShowSettings((v) => !v)} title="Settings">
+            CFG
+          </button>
+          <button className="icon-btn danger" onClick={() => onRemove(table.id)} title="Delete table">
+            DEL
+          </button>
+        </div>
+      </div>
+
+      <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv" hidden onChange={onFileSelected} />
+
+      <textarea
+        className="table-csv"
+        rows={4}
+        spellCheck={false}
+        value={table.csvText}
+        onChange={(event) => onChange(table.id, { csvText: event.target.value })}
+        placeholder={`Paste CSV columns, e.g.\nx${tableNumber}, y${tableNumber}\n1, 2.5\n2, 3.1`}
+      />
+
+      {table.error && <div className="expr-error">{table.error}</div>}
+
+      {!table.error && rowCount > 0 && (
+        <table className="table-preview">
+          <thead>
+            <tr>
+              {previewColumns.map((column) => (
+                <th key={column.name}>{column.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from({ length: Math.min(rowCount, PREVIEW_ROWS) }, (_, row) => (
+              <tr key={row}>
+                {previewColumns.map((column) => {
+                  const value = column.values[row];
+                  return <td key={column.name}>{value === null ? '—' : formatNumber(value)}</td>;
+                })}
+              </tr>
+            ))}
+          </tbody>
+          {rowCount > PREVIEW_ROWS && (
+            <tfoot>
+              <tr>
+                <td colSpan={previewColumns.length}>{rowCount} rows</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      )}
+
+      {showSettings && (
+        <div className="expr-settings">
+          {table.columns.length > 1 && (
+            <>
+              <label>
+                x column
+                <select
+                  value={table.xColumn || table.columns[0].name}
+                  onChange={(event) => onChange(table.id, { xColumn: event.target.value })}
+                >
+                  {table.columns.map((column) => (
+                    <option key={column.name} value={column.name}>
+                      {column.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                y column
+                <select
+                  value={table.yColumn || table.columns[1].name}
+                  onChange={(event) => onChange(table.id, { yColumn: event.target.value })}
+                >
+                  {table.columns.map((column) => (
+                    <option key={column.name} value={column.name}>
+                      {column.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+          <label>
+            Plot style
+            <select
+              value={table.plotStyle}
+              onChange={(event) => onChange(table.id, { plotStyle: event.target.value as TablePlotStyle })}
+            >
+              <option value="markers">Markers</option>
+              <option value="lines">Connected lines</option>
+              <option value="both">Markers + lines</option>
+            </select>
+          </label>
+          <label>
+            TikZ export
+            <select
+              value={table.exportFormat}
+              onChange={(event) => onChange(table.id, { exportFormat: event.target.value as TableExportFormat })}
+            >
+              <option value="coordinates">plot coordinates</option>
+              <option value="pgfplots">pgfplots table</option>
+            </select>
+          </label>
+          <label>
+            Thickness ({table.lineWidth.toFixed(1)} px)
+            <input
+              type="range"
+              min={1}
+              max={8}
+              step={0.5}
+              value={table.lineWidth}
+              onChange={(event) =>
+                onChange(table.id, {
+                  lineWidth: Number.parseFloat(event.target.value)
+                })
+              }
+            />
+          </label>
+          <label>
+            Color
+            <input
+              type="color"
+              value={table.color}
+              onChange={(event) => onChange(table.id, { color: event.target.value })}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
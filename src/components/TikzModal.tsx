@@ -1,11 +1,22 @@
+import type { TrigExportMode } from '../types';
+
 interface TikzModalProps {
   isOpen: boolean;
   tikzCode: string;
   variant?: '2d' | '3d';
+  trigExport: TrigExportMode;
+  onTrigExportChange: (mode: TrigExportMode) => void;
   onClose: () => void;
 }
 
-export default function TikzModal({ isOpen, tikzCode, variant = '2d', onClose }: TikzModalProps) {
+export default function TikzModal({
+  isOpen,
+  tikzCode,
+  variant = '2d',
+  trigExport,
+  onTrigExportChange,
+  onClose
+}: TikzModalProps) {
   if (!isOpen) {
     return null;
   }
@@ -45,10 +56,21 @@ export default function TikzModal({ isOpen, tikzCode, variant = '2d', onClose }:
             </>
           ) : (
             <>
-              Requires <code>tikz</code>. Trig expressions are exported as sampled coordinates for radian consistency.
+              Requires <code>tikz</code>. Trig expressions are exported as pgfmath <code>plot</code> expressions that
+              follow the selected angle mode.
             </>
           )}
         </p>
+        {variant === '2d' && (
+          <label className="checkbox-row">
+            <input
+              type="checkbox"
+              checked={trigExport === 'coordinates'}
+              onChange={(event) => onTrigExportChange(event.target.checked ? 'coordinates' : 'symbolic')}
+            />
+            Export trig as sampled coordinates
+          </label>
+        )}
         <textarea readOnly value={tikzCode} rows={20} className="tikz-textarea" />
         <div className="modal-actions">
           <button onClick={onCopy}>Copy to Clipboard</button>
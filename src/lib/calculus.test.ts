@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { adaptiveSimpson, parseDerivativeName, rewriteCalculusSyntax } from './calculus';
+import { collectMathContext, prepareMath } from './mathParser';
+
+describe('rewriteCalculusSyntax', () => {
+  it.each([
+    ['d/dx(x^2)', 'ddx(x^2)'],
+    ['d / dx (sin(x))', 'ddx(sin(x))'],
+    ["f'(x) + f''(2*x)", 'f__d1(x) + f__d2(2*x)'],
+    ['dd/dx(x)', 'dd/dx(x)'],
+    ["x' + 1", "x' + 1"]
+  ])('rewrites %s', (input, expected) => {
+    expect(rewriteCalculusSyntax(input)).toBe(expected);
+  });
+
+  it('reads derivative names back', () => {
+    expect(parseDerivativeName('f__d2')).toEqual({ name: 'f', order: 2 });
+    expect(parseDerivativeName('f_d2')).toBeNull();
+  });
+});
+
+describe('adaptiveSimpson', () => {
+  it('integrates smooth functions to high accuracy', () => {
+    expect(adaptiveSimpson(Math.sin, 0, Math.PI)).toBeCloseTo(2, 9);
+    expect(adaptiveSimpson((t) => Math.exp(-t * t), -6, 6)).toBeCloseTo(Math.sqrt(Math.PI), 9);
+    expect(adaptiveSimpson((t) => t, 3, 1)).toBeCloseTo(-4, 12);
+  });
+
+  it('handles empty and unbounded ranges', () => {
+    expect(adaptiveSimpson(Math.sin, 2, 2)).toBe(0);
+    expect(adaptiveSimpson(Math.sin, 0, Infinity)).toBeNaN();
+  });
+});
+
+describe('calculus rows', () => {
+  const context = collectMathContext(['f(x) = sin(x)', 'g(x) = x^3 - 2*x']);
+  const valueAt = (input: string, x: number) => prepareMath(input, context).evaluator?.(x);
+
+  it.each([
+    ['d/dx(x^3)', 2, 12],
+    ["f'(x)", 0, 1],
+    ["f''(x)", Math.PI / 2, -1],
+    ["g'(x) + g''(x)", 1, 7],
+    ['d/dx(d/dx(g(x)))', 2, 12],
+    ['integral(t^2, 0, x)', 3, 9],
+    ['integral(f, 0, x)', Math.PI, 2],
+    ['\\frac{d}{dx} x^{2}', 3, 6],
+    ['\\int_0^x t\\,dt', 2, 2]
+  ])('evaluates %s at x = %d', (input, x, expected) => {
+    expect(valueAt(input, x)).toBeCloseTo(expected, 6);
+  });
+
+  it('typesets derivatives and integrals', () => {
+    expect(prepareMath('d/dx(x^2)').latex).toContain('\\frac{d}{dx}');
+    expect(prepareMath('integral(t^2, 0, x)').latex).toContain('\\int_{0}^{');
+  });
+});
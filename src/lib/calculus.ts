@@ -0,0 +1,186 @@
+import type { MathNode } from 'mathjs';
+
+export const DERIVATIVE_FUNCTION = 'ddx';
+export const INTEGRAL_FUNCTION = 'integral';
+export const NUMERIC_DERIVATIVE_FUNCTION = 'nderivative';
+export const CALCULUS_FUNCTIONS = new Set([DERIVATIVE_FUNCTION, INTEGRAL_FUNCTION, NUMERIC_DERIVATIVE_FUNCTION]);
+export const NUMERIC_CALCULUS_FUNCTIONS = new Set([INTEGRAL_FUNCTION, NUMERIC_DERIVATIVE_FUNCTION]);
+export const INTEGRATION_VARIABLE = 't';
+
+const DERIVATIVE_NAME_PATTERN = /^([A-Za-z][A-Za-z0-9_]*?)__d(\d+)$/;
+const INTEGRAL_TOLERANCE = 1e-9;
+const INTEGRAL_MAX_DEPTH = 14;
+
+interface ScopeMap {
+  forEach: (callback: (value: unknown, key: string) => void) => void;
+}
+
+interface CompilingInstance {
+  import: (functions: Record<string, unknown>, options: { override: boolean }) => void;
+}
+
+export function rewriteCalculusSyntax(input: string): string {
+  return input
+    .replace(/\bd\s*\/\s*dx\s*\(/g, `${DERIVATIVE_FUNCTION}(`)
+    .replace(
+      /\b([A-Za-z][A-Za-z0-9_]*)('+)\s*\(/g,
+      (_match, name: string, primes: string) => `${name}__d${primes.length}(`
+    );
+}
+
+export function parseDerivativeName(name: string): { name: string; order: number } | null {
+  const match = DERIVATIVE_NAME_PATTERN.exec(name);
+  return match ? { name: match[1], order: Number(match[2]) } : null;
+}
+
+function functionNameTex(name: string): string {
+  return name.length > 1 ? `\\mathrm{${name}}` : name;
+}
+
+export function calculusTex(node: MathNode, options: object): string | undefined {
+  if (node.type !== 'FunctionNode') {
+    return undefined;
+  }
+
+  const fnNode = node as unknown as { fn: { name?: string }; args: MathNode[] };
+  const name = fnNode.fn.name ?? '';
+  const args = fnNode.args;
+
+  if (name === DERIVATIVE_FUNCTION && args.length === 1) {
+    return `\\frac{d}{dx}\\left(${args[0].toTex(options)}\\right)`;
+  }
+
+  if (name === INTEGRAL_FUNCTION && args.length === 3) {
+    const [integrand, lower, upper] = args;
+    const body =
+      integrand.type === 'SymbolNode'
+        ? `${functionNameTex((integrand as unknown as { name: string }).name)}\\left(${INTEGRATION_VARIABLE}\\right)`
+        : integrand.toTex(options);
+    return `\\int_{${lower.toTex(options)}}^{${upper.toTex(options)}} ${body}\\,d${INTEGRATION_VARIABLE}`;
+  }
+
+  const derivative = parseDerivativeName(name);
+  if (derivative) {
+    const argsTex = args.map((arg) => arg.toTex(options)).join(',');
+    return `${functionNameTex(derivative.name)}${"'".repeat(derivative.order)}\\left(${argsTex}\\right)`;
+  }
+
+  return undefined;
+}
+
+function simpsonStep(
+  f: (t: number) => number,
+  a: number,
+  b: number,
+  fa: number,
+  fm: number,
+  fb: number,
+  whole: number,
+  tolerance: number,
+  depth: number
+): number {
+  const m = (a + b) / 2;
+  const flm = f((a + m) / 2);
+  const frm = f((m + b) / 2);
+  const left = ((m - a) / 6) * (fa + 4 * flm + fm);
+  const right = ((b - m) / 6) * (fm + 4 * frm + fb);
+  const delta = left + right - whole;
+
+  if (!Number.isFinite(delta)) {
+    return Number.NaN;
+  }
+
+  if (depth <= 0 || Math.abs(delta) <= 15 * tolerance) {
+    return left + right + delta / 15;
+  }
+
+  return (
+    simpsonStep(f, a, m, fa, flm, fm, left, tolerance / 2, depth - 1) +
+    simpsonStep(f, m, b, fm, frm, fb, right, tolerance / 2, depth - 1)
+  );
+}
+
+export function adaptiveSimpson(f: (t: number) => number, a: number, b: number): number {
+  if (!Number.isFinite(a) || !Number.isFinite(b)) {
+    return Number.NaN;
+  }
+  if (a === b) {
+    return 0;
+  }
+
+  const fa = f(a);
+  const fm = f((a + b) / 2);
+  const fb = f(b);
+  const whole = ((b - a) / 6) * (fa + 4 * fm + fb);
+  const tolerance = INTEGRAL_TOLERANCE * Math.max(1, Math.abs(whole));
+
+  return simpsonStep(f, a, b, fa, fm, fb, whole, tolerance, INTEGRAL_MAX_DEPTH);
+}
+
+function asNumber(value: unknown): number {
+  return typeof value === 'number' ? value : Number.NaN;
+}
+
+function scopeValues(scope: ScopeMap): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  scope.forEach((value, key) => {
+    values[key] = value;
+  });
+  return values;
+}
+
+const compiledNodes = new WeakMap<MathNode, { evaluate: (scope: Record<string, unknown>) => unknown }>();
+
+function compiled(node: MathNode): { evaluate: (scope: Record<string, unknown>) => unknown } {
+  let result = compiledNodes.get(node);
+  if (!result) {
+    result = node.compile();
+    compiledNodes.set(node, result);
+  }
+  return result;
+}
+
+function integral(args: MathNode[], _math: unknown, scope: ScopeMap): number {
+  if (args.length !== 3) {
+    return Number.NaN;
+  }
+
+  const values = scopeValues(scope);
+  const lower = asNumber(compiled(args[1]).evaluate(values));
+  const upper = asNumber(compiled(args[2]).evaluate(values));
+  const integrand = compiled(args[0]);
+
+  return adaptiveSimpson(
+    (t) => {
+      values[INTEGRATION_VARIABLE] = t;
+      return asNumber(integrand.evaluate(values));
+    },
+    lower,
+    upper
+  );
+}
+integral.rawArgs = true;
+
+function nderivative(args: MathNode[], _math: unknown, scope: ScopeMap): number {
+  if (args.length !== 3 || args[1].type !== 'SymbolNode') {
+    return Number.NaN;
+  }
+
+  const values = scopeValues(scope);
+  const variable = (args[1] as unknown as { name: string }).name;
+  const at = asNumber(compiled(args[2]).evaluate(values));
+  const expression = compiled(args[0]);
+  const step = 1e-4 * Math.max(1, Math.abs(at));
+
+  values[variable] = at + step;
+  const ahead = asNumber(expression.evaluate(values));
+  values[variable] = at - step;
+  const behind = asNumber(expression.evaluate(values));
+
+  return (ahead - behind) / (2 * step);
+}
+nderivative.rawArgs = true;
+
+export function registerCalculusFunctions(instance: CompilingInstance): void {
+  instance.import({ [INTEGRAL_FUNCTION]: integral, [NUMERIC_DERIVATIVE_FUNCTION]: nderivative }, { override: true });
+}
@@ -0,0 +1,124 @@
+import type { DataColumn, DataTable, Point, PreparedDataTable } from '../types';
+
+const COLUMN_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+function detectDelimiter(line: string): string | RegExp {
+  if (line.includes('\t')) {
+    return '\t';
+  }
+  if (line.includes(';')) {
+    return ';';
+  }
+  if (line.includes(',')) {
+    return ',';
+  }
+  return /\s+/;
+}
+
+function parseCell(cell: string): number | null {
+  const trimmed = cell.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : null;
+}
+
+function sanitizeColumnName(name: string): string {
+  const cleaned = name.trim().replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return COLUMN_NAME_PATTERN.test(cleaned) ? cleaned : '';
+}
+
+export function defaultColumnName(columnIndex: number, tableNumber: number): string {
+  if (columnIndex === 0) {
+    return `x${tableNumber}`;
+  }
+  if (columnIndex === 1) {
+    return `y${tableNumber}`;
+  }
+  return `c${columnIndex + 1}_${tableNumber}`;
+}
+
+export function parseCsv(text: string, tableNumber: number): { columns: DataColumn[]; error: string | null } {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  if (lines.length === 0) {
+    return { columns: [], error: null };
+  }
+
+  const delimiter = detectDelimiter(lines[0]);
+  const rows = lines.map((line) => line.split(delimiter).map((cell) => cell.trim()));
+  const hasHeader = rows[0].some((cell) => cell.length > 0 && parseCell(cell) === null);
+  const header = hasHeader ? rows[0] : [];
+  const body = hasHeader ? rows.slice(1) : rows;
+  const columnCount = Math.max(...rows.map((row) => row.length));
+
+  const used = new Set<string>();
+  const columns: DataColumn[] = Array.from({ length: columnCount }, (_, columnIndex) => {
+    let name = sanitizeColumnName(header[columnIndex] ?? '') || defaultColumnName(columnIndex, tableNumber);
+    while (used.has(name)) {
+      name = `${name}_${columnIndex + 1}`;
+    }
+    used.add(name);
+
+    return { name, values: body.map((row) => parseCell(row[columnIndex] ?? '')) };
+  });
+
+  if (body.length === 0) {
+    return { columns, error: 'The table has a header row but no data rows.' };
+  }
+
+  if (columns.every((column) => column.values.every((value) => value === null))) {
+    return { columns, error: 'No numeric values found. Paste comma, semicolon or tab separated numbers.' };
+  }
+
+  return { columns, error: null };
+}
+
+function findColumn(columns: DataColumn[], name: string, fallbackIndex: number): DataColumn | null {
+  return columns.find((column) => column.name === name) ?? columns[fallbackIndex] ?? null;
+}
+
+export function prepareDataTable(table: DataTable, tableNumber: number): PreparedDataTable {
+  const { columns, error } = parseCsv(table.csvText, tableNumber);
+
+  if (error || columns.length === 0) {
+    return { ...table, columns, points: [], error };
+  }
+
+  const yColumn = findColumn(columns, table.yColumn, columns.length > 1 ? 1 : 0);
+  const xColumn = columns.length > 1 ? findColumn(columns, table.xColumn, 0) : null;
+
+  const points = (yColumn?.values ?? []).map((y, row): Point | null => {
+    const x = xColumn ? xColumn.values[row] : row + 1;
+    return x === null || y === null ? null : { x, y };
+  });
+
+  return { ...table, columns, points, error: null };
+}
+
+export function tableSegments(points: Array<Point | null>): Point[][] {
+  const segments: Point[][] = [];
+  let current: Point[] = [];
+
+  points.forEach((point) => {
+    if (!point) {
+      if (current.length > 0) {
+        segments.push(current);
+      }
+      current = [];
+      return;
+    }
+    current.push(point);
+  });
+
+  if (current.length > 0) {
+    segments.push(current);
+  }
+
+  return segments;
+}
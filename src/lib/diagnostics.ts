@@ -0,0 +1,212 @@
+import { parse } from 'mathjs';
+import type { Diagnostic } from '../types';
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const NAME_CHARACTER = /[A-Za-z0-9_]/;
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function closestName(name: string, candidates: string[]): string | null {
+  if (name.length < 3) {
+    return null;
+  }
+
+  const limit = Math.max(1, Math.floor(name.length / 3));
+  let best: string | null = null;
+  let bestDistance = Infinity;
+
+  candidates.forEach((candidate) => {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance > 0 && distance <= limit && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+
+  return best;
+}
+
+function implicitFactors(name: string, symbols: string[]): string[] | null {
+  if (name.length < 2) {
+    return null;
+  }
+
+  const split = (rest: string): string[] | null => {
+    if (!rest) {
+      return [];
+    }
+    for (const symbol of [...symbols].sort((a, b) => b.length - a.length)) {
+      if (rest.startsWith(symbol)) {
+        const tail = split(rest.slice(symbol.length));
+        if (tail) {
+          return [symbol, ...tail];
+        }
+      }
+    }
+    return null;
+  };
+
+  const factors = split(name);
+  return factors && factors.length > 1 ? factors : null;
+}
+
+function findToken(input: string, token: string): Span | null {
+  let from = 0;
+  while (from <= input.length) {
+    const start = input.indexOf(token, from);
+    if (start < 0) {
+      return null;
+    }
+    const end = start + token.length;
+    if (!NAME_CHARACTER.test(input[start - 1] ?? '') && !NAME_CHARACTER.test(input[end] ?? '')) {
+      return { start, end };
+    }
+    from = start + 1;
+  }
+  return null;
+}
+
+function inputSpan(rawInput: string): Span {
+  const start = rawInput.length - rawInput.trimStart().length;
+  return { start, end: Math.max(start, rawInput.trimEnd().length) };
+}
+
+function syntaxSpan(rawInput: string, normalizedInput: string): Span | null {
+  const trimmed = rawInput.trim();
+  if (trimmed !== normalizedInput || !trimmed) {
+    return null;
+  }
+
+  try {
+    parse(normalizedInput);
+    return null;
+  } catch (error) {
+    const char = /\(char (\d+)\)/.exec(error instanceof Error ? error.message : '');
+    if (!char) {
+      return null;
+    }
+
+    const offset = inputSpan(rawInput).start;
+    const index = Math.min(Number(char[1]) - 1, normalizedInput.length - 1);
+    let end = index + 1;
+    if (NAME_CHARACTER.test(normalizedInput[index])) {
+      while (end < normalizedInput.length && NAME_CHARACTER.test(normalizedInput[end])) {
+        end += 1;
+      }
+    }
+    return { start: offset + index, end: offset + end };
+  }
+}
+
+function parenthesisSuggestion(rawInput: string): string | null {
+  const opens = (rawInput.match(/\(/g) ?? []).length;
+  const closes = (rawInput.match(/\)/g) ?? []).length;
+  if (opens > closes) {
+    const missing = opens - closes;
+    return `Add ${missing} closing parenthes${missing === 1 ? 'is' : 'es'}.`;
+  }
+  if (closes > opens) {
+    return 'Remove the extra closing parenthesis or add the matching "(".';
+  }
+  return null;
+}
+
+function symbolSuggestion(name: string, symbols: string[], functionNames: string[]): string | null {
+  const factors = implicitFactors(name, symbols);
+  if (factors) {
+    return `Implicit multiplication of ${factors.join(' and ')}? Write ${factors.join('*')}.`;
+  }
+
+  const prefix = functionNames
+    .filter((fn) => name.startsWith(fn) && symbols.includes(name.slice(fn.length)))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) {
+    return `Did you mean ${prefix}(${name.slice(prefix.length)})?`;
+  }
+
+  const closest = closestName(name, [...symbols, ...functionNames]);
+  return closest ? `Did you mean ${closest}?` : null;
+}
+
+export function errorDiagnostic(
+  rawInput: string,
+  normalizedInput: string,
+  message: string,
+  functionNames: string[]
+): Diagnostic {
+  const token = /"([^"]+)"/.exec(message)?.[1] ?? null;
+
+  if (token) {
+    const symbols = /Use (.+?) as symbols/.exec(message)?.[1].split(', ') ?? [];
+    let suggestion: string | null = null;
+    if (message.startsWith('Unknown symbol')) {
+      suggestion = symbolSuggestion(token, symbols, functionNames);
+    } else if (message.startsWith('Unsupported function')) {
+      const closest = closestName(token, functionNames);
+      suggestion = closest ? `Did you mean ${closest}?` : null;
+    }
+    return {
+      severity: 'error',
+      message,
+      ...(findToken(rawInput, token) ?? inputSpan(rawInput)),
+      suggestion
+    };
+  }
+
+  const position = /\s*\(char \d+\)/.exec(message);
+  return {
+    severity: 'error',
+    message: position ? message.replace(position[0], '') : message,
+    ...(syntaxSpan(rawInput, normalizedInput) ?? inputSpan(rawInput)),
+    suggestion: position ? parenthesisSuggestion(rawInput) : null
+  };
+}
+
+export function duplicateDefinition(rawInput: string, name: string): Diagnostic {
+  return {
+    severity: 'warning',
+    message: `Duplicate definition: ${name} is already defined in an earlier row, and other rows use that definition.`,
+    ...(findToken(rawInput, name) ?? inputSpan(rawInput)),
+    suggestion: null
+  };
+}
+
+export function samplingFailure(rawInput: string, reason: string): Diagnostic {
+  return {
+    severity: 'warning',
+    message: `Sampling failed, so the graph keeps the last result: ${reason}`,
+    ...inputSpan(rawInput),
+    suggestion: null
+  };
+}
+
+export function exportWarning(rawInput: string, reason: string, functionNames: string[]): Diagnostic {
+  const named = reason
+    .split(/[^A-Za-z0-9_]+/)
+    .filter((word) => functionNames.includes(word))
+    .map((word) => findToken(rawInput, word))
+    .find((span) => span !== null);
+
+  return {
+    severity: 'warning',
+    message: `TikZ export falls back to sampled coordinates: ${reason}`,
+    ...(named ?? inputSpan(rawInput)),
+    suggestion: null
+  };
+}
@@ -0,0 +1,67 @@
+import { evaluate, parse } from 'mathjs';
+import { describe, expect, it } from 'vitest';
+import { BINARY_OPERATORS, UNARY_FUNCTIONS, compileFast } from './fastEvaluator';
+
+const SAMPLES = [-3.7, -2.5, -1, -0.5, -1e-13, -1e-16, 0, 1e-16, 0.25, 0.5, 1, 1.5, 2.5, 7.3];
+const PAIRS: Array<[number, number]> = [
+  ...SAMPLES.flatMap((a) => [-2.5, -1, 0, 0.5, 3].map((b): [number, number] => [a, b])),
+  [0.1 + 0.2, 0.3],
+  [0.3, 0.1 + 0.2],
+  [2, 2 + 1e-13]
+];
+const OPERATOR_SYNTAX: Record<string, string> = {
+  add: 'a + b',
+  subtract: 'a - b',
+  multiply: 'a * b',
+  divide: 'a / b',
+  pow: 'a ^ b',
+  mod: 'a mod b',
+  smaller: 'a < b',
+  smallerEq: 'a <= b',
+  larger: 'a > b',
+  largerEq: 'a >= b',
+  equal: 'a == b',
+  unequal: 'a != b',
+  and: 'a and b',
+  or: 'a or b',
+  xor: 'a xor b'
+};
+
+function reference(value: unknown): number {
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  const complex = value as { re: number; im: number };
+  return Math.abs(complex.im) < 1e-10 ? complex.re : Number.NaN;
+}
+
+function expectSame(fast: number, expected: number, label: string) {
+  if (Number.isNaN(expected)) {
+    expect(fast, label).toBeNaN();
+  } else if (Number.isFinite(expected)) {
+    expect(fast, label).toBeCloseTo(expected, 12);
+  } else {
+    expect(fast, label).toBe(expected);
+  }
+}
+
+describe('compileFast', () => {
+  it.each(Object.keys(UNARY_FUNCTIONS))('matches mathjs for %s(x)', (name) => {
+    const kernel = compileFast(parse(`${name}(x)`), ['x'], {}).kernel;
+    SAMPLES.forEach((x) => {
+      expectSame(kernel(Float64Array.of(x)), reference(evaluate(`${name}(x)`, { x })), `${name}(${x})`);
+    });
+  });
+
+  it.each(Object.keys(BINARY_OPERATORS))('matches mathjs for the %s operator', (name) => {
+    const node = parse(OPERATOR_SYNTAX[name]);
+    expect((node as unknown as { fn: string }).fn).toBe(name);
+    const kernel = compileFast(node, ['a', 'b'], {}).kernel;
+    PAIRS.forEach(([a, b]) => {
+      expectSame(kernel(Float64Array.of(a, b)), reference(evaluate(`${name}(a, b)`, { a, b })), `${name}(${a}, ${b})`);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import type { MathNode } from 'mathjs';
+import type { BatchEvaluator } from '../types';
+import { normalPdf } from './functionLibrary';
+
+type Kernel = (env: Float64Array) => number;
+
+export interface FastEvaluator {
+  kernel: Kernel;
+  batch: BatchEvaluator;
+}
+
+const RELATIVE_TOLERANCE = 1e-12;
+const ABSOLUTE_TOLERANCE = 1e-15;
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+function nearlyEqual(a: number, b: number): boolean {
+  if (a === b) {
+    return true;
+  }
+  const tolerance = Math.max(RELATIVE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b)), ABSOLUTE_TOLERANCE);
+  return Math.abs(a - b) <= tolerance;
+}
+
+function snapped(value: number, round: (value: number) => number): number {
+  const nearest = Math.round(value);
+  return nearlyEqual(value, nearest) ? nearest : round(value);
+}
+
+function realValue(value: unknown): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (value && typeof value === 'object' && 're' in value && 'im' in value) {
+    const complex = value as { re: number; im: number };
+    return Math.abs(complex.im) < 1e-10 ? complex.re : Number.NaN;
+  }
+  return Number.NaN;
+}
+
+export const UNARY_FUNCTIONS: Record<string, (value: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  asinh: Math.asinh,
+  acosh: Math.acosh,
+  atanh: Math.atanh,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  log10: Math.log10,
+  exp: Math.exp,
+  floor: (value) => snapped(value, Math.floor),
+  ceil: (value) => snapped(value, Math.ceil),
+  round: (value) => Math.sign(value) * Math.round(Math.abs(value)),
+  sign: Math.sign
+};
+
+export const BINARY_OPERATORS: Record<string, (a: number, b: number) => number> = {
+  add: (a, b) => a + b,
+  subtract: (a, b) => a - b,
+  multiply: (a, b) => a * b,
+  divide: (a, b) => a / b,
+  pow: (a, b) => a ** b,
+  mod: (a, b) => (b === 0 ? a : a - b * snapped(a / b, Math.floor)),
+  smaller: (a, b) => (a < b && !nearlyEqual(a, b) ? 1 : 0),
+  smallerEq: (a, b) => (a <= b || nearlyEqual(a, b) ? 1 : 0),
+  larger: (a, b) => (a > b && !nearlyEqual(a, b) ? 1 : 0),
+  largerEq: (a, b) => (a >= b || nearlyEqual(a, b) ? 1 : 0),
+  equal: (a, b) => (nearlyEqual(a, b) ? 1 : 0),
+  unequal: (a, b) => (nearlyEqual(a, b) ? 0 : 1),
+  and: (a, b) => (a && b ? 1 : 0),
+  or: (a, b) => (a || b ? 1 : 0),
+  xor: (a, b) => (!a !== !b ? 1 : 0)
+};
+
+const UNARY_OPERATORS: Record<string, (value: number) => number> = {
+  unaryMinus: (value) => -value,
+  unaryPlus: (value) => value,
+  not: (value) => (value ? 0 : 1)
+};
+
+function fallbackKernel(node: MathNode, variables: string[], scope: Record<string, unknown>): Kernel {
+  const compiled = node.compile();
+  const local: Record<string, unknown> = { ...scope };
+  return (env) => {
+    variables.forEach((name, index) => {
+      local[name] = env[index];
+    });
+    try {
+      return realValue(compiled.evaluate(local));
+    } catch {
+      return Number.NaN;
+    }
+  };
+}
+
+function functionKernel(name: string, args: Kernel[], scope: Record<string, unknown>): Kernel | null {
+  const override = scope[name];
+  const unary = typeof override === 'function' ? (override as (value: number) => number) : UNARY_FUNCTIONS[name];
+  if (unary && args.length === 1) {
+    const [arg] = args;
+    return (env) => unary(arg(env));
+  }
+
+  if (name === 'log' && args.length <= 2) {
+    const [arg, base] = args;
+    return base ? (env) => Math.log(arg(env)) / Math.log(base(env)) : (env) => Math.log(arg(env));
+  }
+
+  if (name === 'mod' && args.length === 2) {
+    const [a, b] = args;
+    return (env) => BINARY_OPERATORS.mod(a(env), b(env));
+  }
+
+  if ((name === 'min' || name === 'max') && args.length > 0) {
+    const pick = name === 'min' ? Math.min : Math.max;
+    return (env) => pick(...args.map((arg) => arg(env)));
+  }
+
+  if (name === 'normalpdf' && args.length <= 3) {
+    const [x, mean, sd] = args;
+    return (env) => normalPdf(x(env), mean ? mean(env) : 0, sd ? sd(env) : 1);
+  }
+
+  return null;
+}
+
+function compileKernel(node: MathNode, variables: string[], scope: Record<string, unknown>): Kernel {
+  const compileChild = (child: MathNode) => compileKernel(child, variables, scope);
+  const fields = node as unknown as {
+    value?: unknown;
+    name?: string;
+    fn?: string | { name?: string };
+    args?: MathNode[];
+    content?: MathNode;
+    condition?: MathNode;
+    trueExpr?: MathNode;
+    falseExpr?: MathNode;
+  };
+
+  switch (node.type) {
+    case 'ConstantNode': {
+      const value = realValue(fields.value);
+      if (!Number.isNaN(value)) {
+        return () => value;
+      }
+      break;
+    }
+    case 'SymbolNode': {
+      const name = fields.name ?? '';
+      const index = variables.indexOf(name);
+      if (index >= 0) {
+        return (env) => env[index];
+      }
+      const value = typeof scope[name] === 'number' ? (scope[name] as number) : CONSTANTS[name];
+      if (value !== undefined) {
+        return () => value;
+      }
+      break;
+    }
+    case 'ParenthesisNode':
+      return compileChild(fields.content as MathNode);
+    case 'ConditionalNode': {
+      const condition = compileChild(fields.condition as MathNode);
+      const whenTrue = compileChild(fields.trueExpr as MathNode);
+      const whenFalse = compileChild(fields.falseExpr as MathNode);
+      return (env) => (condition(env) ? whenTrue(env) : whenFalse(env));
+    }
+    case 'OperatorNode': {
+      const fn = typeof fields.fn === 'string' ? fields.fn : '';
+      const binary = BINARY_OPERATORS[fn];
+      const unary = UNARY_OPERATORS[fn];
+      const args = fn in BINARY_OPERATORS || fn in UNARY_OPERATORS ? (fields.args ?? []).map(compileChild) : [];
+      if (binary && args.length === 2) {
+        const [a, b] = args;
+        return (env) => binary(a(env), b(env));
+      }
+      if (binary && args.length > 2) {
+        return (env) => args.slice(1).reduce((total, arg) => binary(total, arg(env)), args[0](env));
+      }
+      if (unary && args.length === 1) {
+        const [arg] = args;
+        return (env) => unary(arg(env));
+      }
+      break;
+    }
+    case 'FunctionNode': {
+      const name = typeof fields.fn === 'object' ? fields.fn.name : undefined;
+      const kernel = name ? functionKernel(name, (fields.args ?? []).map(compileChild), scope) : null;
+      if (kernel) {
+        return kernel;
+      }
+      break;
+    }
+  }
+
+  return fallbackKernel(node, variables, scope);
+}
+
+export function compileFast(node: MathNode, variables: string[], scope: Record<string, unknown>): FastEvaluator {
+  const kernel = compileKernel(node, variables, scope);
+  const env = new Float64Array(variables.length);
+
+  const batch: BatchEvaluator = (inputs) => {
+    const output = new Float64Array(inputs[0]?.length ?? 0);
+    for (let i = 0; i < output.length; i += 1) {
+      for (let v = 0; v < env.length; v += 1) {
+        env[v] = inputs[v][i];
+      }
+      const value = kernel(env);
+      output[i] = Number.isFinite(value) ? value : Number.NaN;
+    }
+    return output;
+  };
+
+  return { kernel, batch };
+}
+
+export function gridInputs(
+  xMin: number,
+  xStep: number,
+  xCount: number,
+  yMin: number,
+  yStep: number,
+  yCount: number
+): Float64Array[] {
+  const xs = new Float64Array(xCount * yCount);
+  const ys = new Float64Array(xCount * yCount);
+  for (let j = 0; j < yCount; j += 1) {
+    for (let i = 0; i < xCount; i += 1) {
+      xs[j * xCount + i] = xMin + i * xStep;
+      ys[j * xCount + i] = yMin + j * yStep;
+    }
+  }
+  return [xs, ys];
+}
+
+export function unaryEvaluator({ kernel }: FastEvaluator): (x: number) => number | null {
+  const env = new Float64Array(1);
+  return (x) => {
+    env[0] = x;
+    const value = kernel(env);
+    return Number.isFinite(value) ? value : null;
+  };
+}
+
+export function binaryEvaluator({ kernel }: FastEvaluator): (x: number, y: number) => number | null {
+  const env = new Float64Array(2);
+  return (x, y) => {
+    env[0] = x;
+    env[1] = y;
+    const value = kernel(env);
+    return Number.isFinite(value) ? value : null;
+  };
+}
@@ -0,0 +1,160 @@
+import { erf, type MathNode } from 'mathjs';
+import type { AngleMode } from '../types';
+
+export interface PgfmathCallResult {
+  ok: boolean;
+  expression?: string;
+  reason?: string;
+}
+
+interface ImportingInstance {
+  import: (functions: Record<string, unknown>, options: { override: boolean }) => void;
+}
+
+export const FUNCTION_ARITY: Record<string, [number, number]> = {
+  sin: [1, 1],
+  cos: [1, 1],
+  tan: [1, 1],
+  asin: [1, 1],
+  acos: [1, 1],
+  atan: [1, 1],
+  sinh: [1, 1],
+  cosh: [1, 1],
+  tanh: [1, 1],
+  asinh: [1, 1],
+  acosh: [1, 1],
+  atanh: [1, 1],
+  sqrt: [1, 1],
+  abs: [1, 1],
+  log: [1, 2],
+  log10: [1, 1],
+  exp: [1, 1],
+  floor: [1, 1],
+  ceil: [1, 1],
+  round: [1, 2],
+  sign: [1, 1],
+  min: [1, Infinity],
+  max: [1, Infinity],
+  mod: [2, 2],
+  gamma: [1, 1],
+  erf: [1, 1],
+  normalpdf: [1, 3],
+  normalcdf: [1, 3]
+};
+
+export const ANGLE_FUNCTIONS = new Set(['sin', 'cos', 'tan', 'asin', 'acos', 'atan']);
+
+const SAMPLED_ONLY = new Set(['gamma', 'erf', 'normalcdf']);
+const DEGREE = Math.PI / 180;
+const DEGREE_FUNCTIONS: Record<string, (value: number) => number> = {
+  sin: (value) => Math.sin(value * DEGREE),
+  cos: (value) => Math.cos(value * DEGREE),
+  tan: (value) => Math.tan(value * DEGREE),
+  asin: (value) => Math.asin(value) / DEGREE,
+  acos: (value) => Math.acos(value) / DEGREE,
+  atan: (value) => Math.atan(value) / DEGREE
+};
+const OPERATOR_NAMES = new Set(['erf', 'sign', 'normalpdf', 'normalcdf']);
+
+export function normalPdf(x: number, mean = 0, sd = 1): number {
+  const z = (x - mean) / sd;
+  return Math.exp(-0.5 * z * z) / (sd * Math.sqrt(2 * Math.PI));
+}
+
+export function normalCdf(x: number, mean = 0, sd = 1): number {
+  return 0.5 * (1 + erf((x - mean) / (sd * Math.SQRT2)));
+}
+
+export function angleFunctions(angleMode: AngleMode): Record<string, (value: number) => number> {
+  return angleMode === 'degrees' ? DEGREE_FUNCTIONS : {};
+}
+
+export function registerLibraryFunctions(instance: ImportingInstance): void {
+  instance.import({ normalpdf: normalPdf, normalcdf: normalCdf }, { override: true });
+}
+
+export function libraryTex(node: MathNode, options: object): string | undefined {
+  if (node.type !== 'FunctionNode') {
+    return undefined;
+  }
+
+  const fnNode = node as unknown as { fn: { name?: string }; args: MathNode[] };
+  const name = fnNode.fn.name ?? '';
+  if (!OPERATOR_NAMES.has(name)) {
+    return undefined;
+  }
+
+  const args = fnNode.args.map((arg) => arg.toTex(options)).join(',');
+  return `\\operatorname{${name}}\\left(${args}\\right)`;
+}
+
+export function arityError(name: string, count: number): string | null {
+  const arity = FUNCTION_ARITY[name];
+  if (!arity || (count >= arity[0] && count <= arity[1])) {
+    return null;
+  }
+
+  let expected = `${arity[0]} to ${arity[1]}`;
+  if (arity[1] === Infinity) {
+    expected = `at least ${arity[0]}`;
+  } else if (arity[0] === arity[1]) {
+    expected = `${arity[0]}`;
+  }
+  return `"${name}" expects ${expected} argument(s), got ${count}.`;
+}
+
+export function pgfmathCall(name: string, args: string[], angleMode: AngleMode = 'radians'): PgfmathCallResult {
+  if (SAMPLED_ONLY.has(name)) {
+    return { ok: false, reason: `${name} has no pgfmath equivalent and is exported as coordinates.` };
+  }
+
+  const [a, b, c] = args;
+
+  switch (name) {
+    case 'sin':
+    case 'cos':
+    case 'tan':
+      return { ok: true, expression: angleMode === 'degrees' ? `${name}(${a})` : `${name}(deg(${a}))` };
+    case 'asin':
+    case 'acos':
+    case 'atan':
+      return { ok: true, expression: angleMode === 'degrees' ? `${name}(${a})` : `(${name}(${a}))*pi/180` };
+    case 'sqrt':
+    case 'abs':
+    case 'exp':
+    case 'sinh':
+    case 'cosh':
+    case 'tanh':
+    case 'floor':
+    case 'ceil':
+      return { ok: true, expression: `${name}(${a})` };
+    case 'asinh':
+      return { ok: true, expression: `ln((${a})+sqrt(pow(${a},2)+1))` };
+    case 'acosh':
+      return { ok: true, expression: `ln((${a})+sqrt(pow(${a},2)-1))` };
+    case 'atanh':
+      return { ok: true, expression: `(0.5*ln((1+(${a}))/(1-(${a}))))` };
+    case 'log':
+      return { ok: true, expression: b === undefined ? `ln(${a})` : `(ln(${a})/ln(${b}))` };
+    case 'log10':
+      return { ok: true, expression: `(ln(${a})/ln(10))` };
+    case 'round':
+      return b === undefined
+        ? { ok: true, expression: `round(${a})` }
+        : { ok: false, reason: 'round with a digit count is exported as coordinates.' };
+    case 'sign':
+      return { ok: true, expression: `ifthenelse((${a})>0,1,ifthenelse((${a})<0,-1,0))` };
+    case 'min':
+    case 'max':
+      return { ok: true, expression: args.length === 1 ? a : `${name}(${args.join(',')})` };
+    case 'mod':
+      return { ok: true, expression: `((${a})-(${b})*floor((${a})/(${b})))` };
+    case 'normalpdf': {
+      const mean = b ?? '0';
+      const sd = c ?? '1';
+      return { ok: true, expression: `(exp(-0.5*pow(((${a})-(${mean}))/(${sd}),2))/((${sd})*sqrt(2*pi)))` };
+    }
+    default:
+      return { ok: false, reason: `Unsupported function ${name}` };
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { Point } from '../types';
+import { canIntersect, findIntersections } from './intersections';
+import { prepareMath } from './mathParser';
+import { curveSource } from './plotSampling';
+
+const VIEW = { xMin: -5, xMax: 5, yMin: -5, yMax: 5 };
+
+function curve(rawInput: string, domainMin = '', domainMax = '') {
+  const source = curveSource({
+    id: rawInput,
+    rawInput,
+    samples: 400,
+    domainMin,
+    domainMax,
+    tMin: '',
+    tMax: '',
+    endpointDots: false
+  });
+  return { ...prepareMath(rawInput), ...source };
+}
+
+function intersect(first: string, second: string): Point[] {
+  return findIntersections(curve(first), curve(second), VIEW);
+}
+
+function expectPoints(points: Point[], expected: Point[]) {
+  expect(points).toHaveLength(expected.length);
+  points.forEach((point, index) => {
+    expect(point.x).toBeCloseTo(expected[index].x, 6);
+    expect(point.y).toBeCloseTo(expected[index].y, 6);
+  });
+}
+
+describe('findIntersections', () => {
+  it('finds crossings of explicit curves', () => {
+    expectPoints(intersect('y = x^2 - 1', 'y = x + 1'), [
+      { x: -1, y: 0 },
+      { x: 2, y: 3 }
+    ]);
+  });
+
+  it.each([
+    ['y = (x - 0.4142)^2', 'y = 0', { x: 0.4142, y: 0 }],
+    ['y = (x - 1.2718)^2 + 0.7', 'y = 0.7', { x: 1.2718, y: 0.7 }],
+    ['y = cos(x - 0.5772)', 'y = 1', { x: 0.5772, y: 1 }],
+    ['(x - 0.3183)^2 + y^2 = 4', 'y = 2', { x: 0.3183, y: 2 }]
+  ])('finds the tangent point of %s and %s', (first, second, expected) => {
+    expectPoints(intersect(first, second), [expected]);
+  });
+
+  it('ignores near misses', () => {
+    expect(intersect('y = x^2 + 0.01', 'y = 0')).toEqual([]);
+  });
+
+  it('crosses implicit curves with mirrored rows', () => {
+    expectPoints(intersect('x^2 + y^2 = 25', 'x = 3'), [
+      { x: 3, y: -4 },
+      { x: 3, y: 4 }
+    ]);
+  });
+
+  it('intersects two implicit curves', () => {
+    const r = Math.sqrt(3);
+    expectPoints(intersect('x^2 + y^2 = 4', '(x - 2)^2 + y^2 = 4'), [
+      { x: 1, y: -r },
+      { x: 1, y: r }
+    ]);
+  });
+
+  it('does not report sign changes across poles', () => {
+    expect(intersect('y = 1/x', 'y = 0')).toEqual([]);
+    expectPoints(intersect('y = 1/x', 'y = x'), [
+      { x: -1, y: -1 },
+      { x: 1, y: 1 }
+    ]);
+  });
+
+  it('respects row domains and the viewport', () => {
+    const line = curve('y = x', '0', '');
+    expectPoints(findIntersections(line, curve('y = x^3'), VIEW), [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 }
+    ]);
+    expect(intersect('y = x + 10', 'y = 2*x')).toEqual([]);
+  });
+
+  it('skips parallel lines, a row with itself and unsupported modes', () => {
+    expect(intersect('y = 2*x', 'y = 2*x + 1')).toEqual([]);
+    expect(intersect('y = x', 'y = x')).toEqual([]);
+    expect(canIntersect(prepareMath('(cos(t), sin(t))'))).toBe(false);
+    expect(canIntersect(prepareMath('y = x^2'))).toBe(true);
+  });
+});
@@ -0,0 +1,289 @@
+import type { Point, Viewport } from '../types';
+import {
+  mirroredViewport,
+  parseDomainBounds,
+  sampleExpression,
+  sampleImplicitContours,
+  type PreparedMath
+} from './mathParser';
+import type { CurveSource } from './plotSampling';
+
+type Residual = (x: number, y: number) => number | null;
+
+interface IntersectionCurve {
+  residual: Residual;
+  pointAt: ((t: number) => Point | null) | null;
+  paths: Point[][];
+}
+
+const MAX_INTERSECTIONS = 64;
+const BISECTION_STEPS = 60;
+const NEWTON_STEPS = 8;
+const RESIDUAL_TOLERANCE = 1e-6;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+export function canIntersect(expr: PreparedMath): boolean {
+  if (expr.error) {
+    return false;
+  }
+  if (expr.mode === 'implicit') {
+    return expr.implicitEvaluator !== null;
+  }
+  return (expr.mode === 'explicit' || expr.mode === 'mirrored') && expr.evaluator !== null;
+}
+
+function intersectionCurve(expr: PreparedMath & CurveSource, viewport: Viewport): IntersectionCurve | null {
+  if (expr.mode === 'implicit' && expr.implicitEvaluator) {
+    return {
+      residual: expr.implicitEvaluator,
+      pointAt: null,
+      paths: sampleImplicitContours(expr.implicitEvaluator, viewport, expr.samples, expr.batchEvaluator)
+    };
+  }
+
+  const evaluator = expr.evaluator;
+  if (!evaluator || (expr.mode !== 'explicit' && expr.mode !== 'mirrored')) {
+    return null;
+  }
+
+  // Mirrored rows are x = g(y), so their parameter runs along y.
+  const mirrored = expr.mode === 'mirrored';
+  const view = mirrored ? mirroredViewport(viewport) : viewport;
+  const domain = parseDomainBounds(expr.domainMin, expr.domainMax, view);
+  const valueAt = (t: number) => (t >= domain.xMin && t <= domain.xMax ? evaluator(t) : null);
+  const pointAt = (t: number): Point | null => {
+    const value = valueAt(t);
+    return value === null ? null : mirrored ? { x: value, y: t } : { x: t, y: value };
+  };
+  const residual: Residual = (x, y) => {
+    const value = valueAt(mirrored ? y : x);
+    return value === null ? null : mirrored ? x - value : y - value;
+  };
+
+  const tMin = Math.max(domain.xMin, view.xMin);
+  const tMax = Math.min(domain.xMax, view.xMax);
+  const paths =
+    tMax > tMin ? sampleExpression(evaluator, tMin, tMax, expr.samples, view, expr.batchEvaluator).segments : [];
+
+  return { residual, pointAt, paths };
+}
+
+function polish(first: Residual, second: Residual, start: Point): Point | null {
+  let { x, y } = start;
+
+  for (let step = 0; step < NEWTON_STEPS; step += 1) {
+    const f = first(x, y);
+    const g = second(x, y);
+    const hx = 1e-7 * Math.max(1, Math.abs(x));
+    const hy = 1e-7 * Math.max(1, Math.abs(y));
+    const fx = first(x + hx, y);
+    const fy = first(x, y + hy);
+    const gx = second(x + hx, y);
+    const gy = second(x, y + hy);
+    if (f === null || g === null || fx === null || fy === null || gx === null || gy === null) {
+      return null;
+    }
+
+    const [dfx, dfy, dgx, dgy] = [(fx - f) / hx, (fy - f) / hy, (gx - g) / hx, (gy - g) / hy];
+    const determinant = dfx * dgy - dfy * dgx;
+    if (!Number.isFinite(determinant) || determinant === 0) {
+      break;
+    }
+
+    const dx = (f * dgy - g * dfy) / determinant;
+    const dy = (g * dfx - f * dgx) / determinant;
+    x -= dx;
+    y -= dy;
+    if (Math.abs(dx) + Math.abs(dy) <= 1e-13 * (1 + Math.abs(x) + Math.abs(y))) {
+      break;
+    }
+  }
+
+  return { x, y };
+}
+
+function residualsAlong(first: IntersectionCurve, path: Point[], second: Residual): Array<number | null> {
+  const { pointAt } = first;
+  const vertices = pointAt ? path.map((sample) => pointAt(sample.x)) : path;
+  return vertices.map((point) => (point ? second(point.x, point.y) : null));
+}
+
+function bracketRoots(first: IntersectionCurve, second: Residual): Point[] {
+  const roots: Point[] = [];
+  const { pointAt } = first;
+
+  first.paths.forEach((path) => {
+    const values = residualsAlong(first, path, second);
+
+    for (let i = 1; i < path.length; i += 1) {
+      const [a, b] = [path[i - 1], path[i]];
+      const [ha, hb] = [values[i - 1], values[i]];
+      if (ha === null || hb === null || (i > 1 && ha === 0) || Math.sign(ha) * Math.sign(hb) > 0) {
+        continue;
+      }
+
+      // Explicit rows bisect on their own parameter; contours bisect along the chord and are polished after.
+      const position = (s: number): Point | null =>
+        pointAt ? pointAt(a.x + s * (b.x - a.x)) : { x: a.x + s * (b.x - a.x), y: a.y + s * (b.y - a.y) };
+      const valueAt = (s: number): number | null => {
+        const point = position(s);
+        return point ? second(point.x, point.y) : null;
+      };
+
+      let lo = 0;
+      let hi = 1;
+      let low = ha;
+      if (ha === 0 || hb === 0) {
+        lo = hi = ha === 0 ? 0 : 1;
+      }
+      for (let step = 0; step < BISECTION_STEPS && lo < hi; step += 1) {
+        const mid = (lo + hi) / 2;
+        const value = valueAt(mid);
+        if (value === null) {
+          break;
+        }
+        if (value === 0) {
+          lo = hi = mid;
+        } else if (Math.sign(value) === Math.sign(low)) {
+          lo = mid;
+          low = value;
+        } else {
+          hi = mid;
+        }
+      }
+
+      const chordRoot = position((lo + hi) / 2);
+      const root = chordRoot && !pointAt ? polish(first.residual, second, chordRoot) : chordRoot;
+      if (!root) {
+        continue;
+      }
+
+      // Sign changes across jumps or poles leave a large residual and are not crossings.
+      const tolerance = RESIDUAL_TOLERANCE * Math.max(1, Math.abs(ha), Math.abs(hb));
+      const firstValue = first.residual(root.x, root.y);
+      const secondValue = second(root.x, root.y);
+      const chord = Math.hypot(b.x - a.x, b.y - a.y);
+      if (
+        firstValue !== null &&
+        secondValue !== null &&
+        Math.abs(firstValue) <= tolerance &&
+        Math.abs(secondValue) <= tolerance &&
+        (pointAt || !chordRoot || Math.hypot(root.x - chordRoot.x, root.y - chordRoot.y) <= 2 * chord)
+      ) {
+        roots.push(root);
+      }
+    }
+  });
+
+  return roots;
+}
+
+// Tangent curves touch without a sign change, so sampled dips of |residual| toward zero are minimized and checked.
+function touchingRoots(first: IntersectionCurve, second: Residual): Point[] {
+  const roots: Point[] = [];
+  const { pointAt } = first;
+
+  first.paths.forEach((path) => {
+    const values = residualsAlong(first, path, second);
+
+    for (let i = 1; i + 1 < path.length; i += 1) {
+      const [ha, hm, hb] = [values[i - 1], values[i], values[i + 1]];
+      if (ha === null || hm === null || hb === null || hm === 0) {
+        continue;
+      }
+      const depth = Math.abs(hm);
+      const rim = Math.max(Math.abs(ha), Math.abs(hb));
+      if (
+        Math.sign(ha) !== Math.sign(hm) ||
+        Math.sign(hb) !== Math.sign(hm) ||
+        depth >= Math.abs(ha) ||
+        depth > Math.abs(hb) ||
+        depth > rim - depth
+      ) {
+        continue;
+      }
+
+      const [a, m, b] = [path[i - 1], path[i], path[i + 1]];
+      const position = (s: number): Point | null => {
+        if (pointAt) {
+          return pointAt(a.x + s * (b.x - a.x));
+        }
+        const [from, to, u] = s < 0.5 ? [a, m, 2 * s] : [m, b, 2 * s - 1];
+        return { x: from.x + u * (to.x - from.x), y: from.y + u * (to.y - from.y) };
+      };
+      const size = (s: number): number => {
+        const point = position(s);
+        const value = point ? second(point.x, point.y) : null;
+        return value === null ? Infinity : Math.abs(value);
+      };
+
+      let lo = 0;
+      let hi = 1;
+      for (let step = 0; step < BISECTION_STEPS; step += 1) {
+        const left = hi - GOLDEN_RATIO * (hi - lo);
+        const right = lo + GOLDEN_RATIO * (hi - lo);
+        if (size(left) <= size(right)) {
+          hi = right;
+        } else {
+          lo = left;
+        }
+      }
+
+      const touch = position((lo + hi) / 2);
+      const root = touch && !pointAt ? polish(first.residual, second, touch) : touch;
+      if (!touch || !root) {
+        continue;
+      }
+
+      const firstValue = first.residual(root.x, root.y);
+      const secondValue = second(root.x, root.y);
+      const chord = Math.hypot(b.x - a.x, b.y - a.y);
+      if (
+        firstValue !== null &&
+        secondValue !== null &&
+        Math.abs(firstValue) <= RESIDUAL_TOLERANCE &&
+        Math.abs(secondValue) <= RESIDUAL_TOLERANCE &&
+        Math.hypot(root.x - touch.x, root.y - touch.y) <= chord
+      ) {
+        roots.push(root);
+      }
+    }
+  });
+
+  return roots;
+}
+
+export function findIntersections(
+  first: PreparedMath & CurveSource,
+  second: PreparedMath & CurveSource,
+  viewport: Viewport
+): Point[] {
+  if (first.id === second.id || !canIntersect(first) || !canIntersect(second)) {
+    return [];
+  }
+
+  const a = intersectionCurve(first, viewport);
+  const b = intersectionCurve(second, viewport);
+  if (!a || !b) {
+    return [];
+  }
+
+  const [primary, other] = a.pointAt || !b.pointAt ? [a, b] : [b, a];
+  const span = Math.max(viewport.xMax - viewport.xMin, viewport.yMax - viewport.yMin);
+  const spacing = 1e-6 * span;
+  const snap = (value: number) => (Math.abs(value) <= 1e-9 * span ? 0 : value);
+  const inView = (point: Point) =>
+    point.x >= viewport.xMin && point.x <= viewport.xMax && point.y >= viewport.yMin && point.y <= viewport.yMax;
+
+  const unique: Point[] = [];
+  [...bracketRoots(primary, other.residual), ...touchingRoots(primary, other.residual)]
+    .filter(inView)
+    .map((point) => ({ x: snap(point.x), y: snap(point.y) }))
+    .forEach((point) => {
+      if (!unique.some((kept) => Math.hypot(kept.x - point.x, kept.y - point.y) <= spacing)) {
+        unique.push(point);
+      }
+    });
+
+  return unique.sort((p, q) => p.x - q.x || p.y - q.y).slice(0, MAX_INTERSECTIONS);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { latexToMath, looksLikeLatex } from './latexInput';
+import { normalizeInput, prepareMath } from './mathParser';
+
+describe('looksLikeLatex', () => {
+  it.each(['\\frac{1}{x}', 'x^{2}\\cdot\\sin(x)', '\\left(x\\right)', '2\\,x'])('detects %s', (input) => {
+    expect(looksLikeLatex(input)).toBe(true);
+  });
+
+  it.each(['|x|', 'abs(x) + |x - 1|', '{x < 0: -x, x}', 'x^2'])('leaves %s alone', (input) => {
+    expect(looksLikeLatex(input)).toBe(false);
+  });
+});
+
+describe('sized delimiters', () => {
+  it('keeps one-sided braces balanced', () => {
+    expect(latexToMath('\\left\\{ x < 0: -x, x \\right.')).toBe('{ x < 0: -x, x }');
+  });
+
+  it('reads a braced array as cases', () => {
+    const input = 'y = \\left\\{ \\begin{array}{ll} -x & x < 0 \\\\ x^{2} & \\text{otherwise} \\end{array} \\right.';
+    const prepared = prepareMath(input);
+    expect(prepared.error).toBeNull();
+    expect(prepared.evaluator?.(-2)).toBe(2);
+    expect(prepared.evaluator?.(3)).toBe(9);
+  });
+
+  it('pairs nested delimiters by depth', () => {
+    expect(latexToMath('\\left[ \\left| x \\right| + 1 \\right)')).toBe('( abs( x ) + 1 )');
+    expect(latexToMath('\\left. x^{2} \\right|')).toBe('( x^(2) )');
+  });
+});
+
+describe('typed absolute values', () => {
+  it('rewrites bars outside LaTeX', () => {
+    expect(normalizeInput('|x| + |x - 1|')).toBe('abs(x) + abs(x - 1)');
+    expect(prepareMath('y = ||x| - 2|').evaluator?.(-5)).toBe(3);
+  });
+});
+
+describe('latexToMath', () => {
+  it.each([
+    ['\\frac{1}{1+e^{-x}}', 0, 0.5],
+    ['x^{2}\\cdot\\sin(x)', Math.PI / 2, (Math.PI / 2) ** 2],
+    ['\\sqrt{x^{2}+9}', 4, 5],
+    ['\\sqrt[3]{x}', 27, 3],
+    ['\\left(x+1\\right)^{2}', 2, 9],
+    ['\\sin^{2} x + \\cos^{2} x', 0.7, 1],
+    ['\\log_{2} x', 8, 3],
+    ['\\ln x', Math.E, 1],
+    ['\\left|x - 3\\right|', 1, 2],
+    ['\\lvert x \\rvert', -4, 4],
+    ['2\\,x \\times 3', 1, 6],
+    ['\\dfrac{x}{2} + \\tfrac{1}{2}', 3, 2],
+    ['\\operatorname{max}(x, 1)', -2, 1],
+    ['\\frac{d}{dx} \\sin x', 0, 1]
+  ])('converts %s', (input, x, expected) => {
+    const prepared = prepareMath(`y = ${input}`);
+    expect(prepared.error).toBeNull();
+    expect(prepared.evaluator?.(x)).toBeCloseTo(expected, 9);
+  });
+
+  it('strips math-mode delimiters', () => {
+    expect(latexToMath('$\\sqrt{x}$')).toBe('sqrt(x)');
+    expect(latexToMath('\\[\\sqrt{x}\\]')).toBe('sqrt(x)');
+  });
+
+  it('converts cases to piecewise syntax', () => {
+    const input = 'f(x) = \\begin{cases} -x & \\text{if } x < 0 \\\\ x^{2} & \\text{otherwise} \\end{cases}';
+    expect(latexToMath(input)).toBe('f(x) = {x < 0: -x, x^(2)}');
+  });
+
+  it('converts comparisons and implicit equations', () => {
+    expect(latexToMath('x^{2} + y^{2} \\leq 4')).toBe('x^(2) + y^(2) <= 4');
+    expect(latexToMath('y \\geqslant \\frac{x}{2}')).toBe('y >= ((x)/(2))');
+  });
+});
@@ -0,0 +1,410 @@
+const FUNCTION_COMMANDS: Record<string, string> = {
+  sin: 'sin',
+  cos: 'cos',
+  tan: 'tan',
+  arcsin: 'asin',
+  arccos: 'acos',
+  arctan: 'atan',
+  sinh: 'sinh',
+  cosh: 'cosh',
+  tanh: 'tanh',
+  ln: 'ln',
+  log: 'log',
+  exp: 'exp',
+  min: 'min',
+  max: 'max'
+};
+
+const SYMBOL_COMMANDS: Record<string, string> = {
+  cdot: '*',
+  times: '*',
+  ast: '*',
+  div: '/',
+  le: '<=',
+  leq: '<=',
+  leqslant: '<=',
+  ge: '>=',
+  geq: '>=',
+  geqslant: '>=',
+  lt: '<',
+  gt: '>',
+  sim: '~',
+  '{': '(',
+  '}': ')',
+  ',': ' ',
+  ';': ' ',
+  ':': ' ',
+  '!': '',
+  ' ': ' ',
+  quad: ' ',
+  qquad: ' '
+};
+
+const TEXT_COMMANDS = new Set(['mathrm', 'operatorname', 'text', 'mathit', 'mathbf', 'displaystyle']);
+const FRACTION_COMMANDS = new Set(['frac', 'dfrac', 'tfrac']);
+
+const DELIMITERS: Record<string, [string, string]> = {
+  '(': ['(', ')'],
+  ')': ['(', ')'],
+  '[': ['(', ')'],
+  ']': ['(', ')'],
+  '\\{': ['{', '}'],
+  '\\}': ['{', '}'],
+  '|': ['|', '|'],
+  '\\|': ['|', '|'],
+  '\\lvert': ['|', '|'],
+  '\\rvert': ['|', '|']
+};
+const SIZED_DELIMITER = /\\(left|right)\s*(\\[lr]vert\b|\\[{}|]|[()[\].|])/g;
+
+interface Group {
+  content: string;
+  end: number;
+}
+
+export function looksLikeLatex(input: string): boolean {
+  return /\\(?:[A-Za-z]|[^\w\s])/.test(input);
+}
+
+function skipSpaces(input: string, index: number): number {
+  let i = index;
+  while (input[i] === ' ') {
+    i += 1;
+  }
+  return i;
+}
+
+function readBalanced(input: string, start: number, open: string, close: string): Group | null {
+  let depth = 0;
+  for (let i = start; i < input.length; i += 1) {
+    if (input[i] === open) {
+      depth += 1;
+    } else if (input[i] === close) {
+      depth -= 1;
+      if (depth === 0) {
+        return { content: input.slice(start + 1, i), end: i + 1 };
+      }
+    }
+  }
+  return null;
+}
+
+function readArgument(input: string, start: number): Group {
+  const i = skipSpaces(input, start);
+
+  if (input[i] === '{') {
+    return readBalanced(input, i, '{', '}') ?? { content: input.slice(i + 1), end: input.length };
+  }
+
+  if (input[i] === '\\') {
+    const command = /^\\([A-Za-z]+|.)/.exec(input.slice(i));
+    let end = i + (command?.[0].length ?? 1);
+    while (input[skipSpaces(input, end)] === '{') {
+      end = readBalanced(input, skipSpaces(input, end), '{', '}')?.end ?? input.length;
+    }
+    return { content: input.slice(i, end), end };
+  }
+
+  return { content: input[i] ?? '', end: Math.min(i + 1, input.length) };
+}
+
+function readFunctionArgument(input: string, start: number): Group {
+  const i = skipSpaces(input, start);
+
+  if (input[i] === '(') {
+    return readBalanced(input, i, '(', ')') ?? { content: input.slice(i + 1), end: input.length };
+  }
+
+  if (input[i] === '{' || input[i] === '\\') {
+    return readArgument(input, i);
+  }
+
+  const token = /^[0-9.]*[A-Za-z]?/.exec(input.slice(i))?.[0] ?? '';
+  return { content: token, end: i + token.length };
+}
+
+function hasTopLevelColon(input: string): boolean {
+  let depth = 0;
+  for (const char of input) {
+    if (char === '(' || char === '[' || char === '{') {
+      depth += 1;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth -= 1;
+    } else if (char === ':' && depth === 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// A bar opens a new |...| pair when it follows an operator, an opening bracket or another opening bar.
+function closingBar(input: string, open: number): number {
+  let depth = 0;
+  let previous = '|';
+  let previousOpens = true;
+
+  for (let i = open + 1; i < input.length; i += 1) {
+    const char = input[i];
+    if (char === ' ') {
+      continue;
+    }
+    if (char === '|') {
+      const opens: boolean = previous === '|' ? previousOpens : /[-+*/^(,=<>{[]/.test(previous);
+      if (opens) {
+        depth += 1;
+      } else if (depth === 0) {
+        return i;
+      } else {
+        depth -= 1;
+      }
+      previousOpens = opens;
+    }
+    previous = char;
+  }
+
+  return -1;
+}
+
+// The operand of a pasted d/dx runs to the next top-level sign, comparison or closing bracket.
+function derivativeOperandEnd(input: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < input.length; i += 1) {
+    const char = input[i];
+    if (char === '(' || char === '[' || char === '{') {
+      depth += 1;
+    } else if (char === ')' || char === ']' || char === '}') {
+      if (depth === 0) {
+        return i;
+      }
+      depth -= 1;
+    } else if (char === '|') {
+      const close = closingBar(input, i);
+      i = close > i ? close : i;
+    } else if (depth === 0 && /[-+=<>,]/.test(char) && i > start) {
+      return i;
+    }
+  }
+  return input.length;
+}
+
+// Each \left is paired with its \right first, so a one-sided \left\{ ... \right. still yields balanced brackets.
+function pairedDelimiters(left: string, right: string): [string, string] {
+  const [open, close] = DELIMITERS[left] ?? DELIMITERS[right] ?? ['', ''];
+  const oneSided = left === '.' || right === '.';
+  return open === '|' && oneSided ? ['(', ')'] : [open, close];
+}
+
+function rewriteDelimiters(input: string): string {
+  const cases = input.replace(
+    /\\left\s*\\\{\s*\\begin\{(array|matrix)\}(?:\{[^{}]*\})?([\s\S]*?)\\end\{\1\}\s*\\right\s*\./g,
+    (_match, _environment: string, body: string) => `\\begin{cases}${body}\\end{cases}`
+  );
+  const replacements = new Map<number, { length: number; text: string }>();
+  const open: RegExpMatchArray[] = [];
+
+  for (const match of cases.matchAll(SIZED_DELIMITER)) {
+    if (match[1] === 'left') {
+      open.push(match);
+      continue;
+    }
+    const partner = open.pop();
+    const [opening, closing] = pairedDelimiters(partner?.[2] ?? '.', match[2]);
+    if (partner) {
+      replacements.set(partner.index ?? 0, { length: partner[0].length, text: opening });
+    }
+    replacements.set(match.index ?? 0, { length: match[0].length, text: closing });
+  }
+  open.forEach((match) => {
+    replacements.set(match.index ?? 0, { length: match[0].length, text: pairedDelimiters(match[2], '.')[0] });
+  });
+
+  let output = '';
+  for (let i = 0; i < cases.length; i += 1) {
+    const replacement = replacements.get(i);
+    if (replacement) {
+      output += replacement.text;
+      i += replacement.length - 1;
+    } else {
+      output += cases[i];
+    }
+  }
+  return output.replace(/\\[lr]vert\b/g, '|');
+}
+
+function rewriteCases(input: string): string {
+  return input.replace(/\\begin\{cases\}([\s\S]*?)\\end\{cases\}/g, (_match, body: string) => {
+    const rows = body
+      .split(/\\\\/)
+      .map((row) => row.trim())
+      .filter((row) => row.length > 0)
+      .map((row) => {
+        const [value, condition = ''] = row.split('&').map((part) => part.trim());
+        const cleaned = condition.replace(/\\(?:text|mathrm)\{\s*(?:if|for)\s*\}/g, '').replace(/^,|,$/g, '').trim();
+        if (!cleaned || /otherwise|else/.test(cleaned)) {
+          return value;
+        }
+        return `${cleaned}: ${value}`;
+      });
+    return `{${rows.join(', ')}}`;
+  });
+}
+
+function rewriteIntegrals(input: string): string {
+  return input.replace(
+    /\\int_(\{[^{}]*\}|\S)\^(\{[^{}]*\}|\S)([\s\S]*?)(?:\\[,;!]\s*)?\bd\s*([A-Za-z])\b/g,
+    (_match, lower: string, upper: string, body: string, variable: string) => {
+      const unwrap = (group: string) => group.replace(/^\{|\}$/g, '');
+      const integrand = body.trim().replace(new RegExp(`\\b${variable}\\b`, 'g'), 't');
+      return `integral({${integrand}}, {${unwrap(lower)}}, {${unwrap(upper)}})`;
+    }
+  );
+}
+
+function convert(input: string): string {
+  let output = '';
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === '\\') {
+      const command = /^\\([A-Za-z]+|.)/.exec(input.slice(i));
+      const name = command?.[1] ?? '';
+      i += command?.[0].length ?? 1;
+
+      if (FRACTION_COMMANDS.has(name)) {
+        const numerator = readArgument(input, i);
+        const denominator = readArgument(input, numerator.end);
+        i = denominator.end;
+        if (numerator.content.trim() !== 'd' || denominator.content.trim() !== 'dx') {
+          output += `((${convert(numerator.content)})/(${convert(denominator.content)}))`;
+        } else if (input[skipSpaces(input, i)] === '(') {
+          output += 'd/dx';
+        } else {
+          const end = derivativeOperandEnd(input, skipSpaces(input, i));
+          output += `d/dx(${convert(input.slice(i, end)).trim()})`;
+          i = end;
+        }
+        continue;
+      }
+
+      if (name === 'sqrt') {
+        let index: string | null = null;
+        const bracket = skipSpaces(input, i);
+        if (input[bracket] === '[') {
+          const group = readBalanced(input, bracket, '[', ']');
+          if (group) {
+            index = group.content;
+            i = group.end;
+          }
+        }
+        const radicand = readArgument(input, i);
+        i = radicand.end;
+        output += index
+          ? `((${convert(radicand.content)})^(1/(${convert(index)})))`
+          : `sqrt(${convert(radicand.content)})`;
+        continue;
+      }
+
+      if (TEXT_COMMANDS.has(name)) {
+        if (name !== 'displaystyle') {
+          const group = readArgument(input, i);
+          i = group.end;
+          output += convert(group.content);
+        }
+        continue;
+      }
+
+      if (name in FUNCTION_COMMANDS) {
+        let base: string | null = null;
+        let exponent: string | null = null;
+        if (name === 'log' && input[skipSpaces(input, i)] === '_') {
+          const group = readArgument(input, skipSpaces(input, i) + 1);
+          base = convert(group.content);
+          i = group.end;
+        }
+        if (input[skipSpaces(input, i)] === '^') {
+          const group = readArgument(input, skipSpaces(input, i) + 1);
+          exponent = convert(group.content);
+          i = group.end;
+        }
+        const argument = readFunctionArgument(input, i);
+        i = argument.end;
+        const args = base ? `${convert(argument.content)}, ${base}` : convert(argument.content);
+        output += `${FUNCTION_COMMANDS[name]}(${args})${exponent ? `^(${exponent})` : ''}`;
+        continue;
+      }
+
+      output += SYMBOL_COMMANDS[name] ?? name;
+      continue;
+    }
+
+    if (char === '{') {
+      const group = readBalanced(input, i, '{', '}');
+      if (!group) {
+        output += char;
+        i += 1;
+        continue;
+      }
+      const inner = convert(group.content);
+      output += hasTopLevelColon(group.content) ? `{${inner}}` : `(${inner})`;
+      i = group.end;
+      continue;
+    }
+
+    if (char === '_') {
+      const group = readArgument(input, i + 1);
+      output += `_${group.content.replace(/[^A-Za-z0-9]/g, '')}`;
+      i = group.end;
+      continue;
+    }
+
+    if (char === '|') {
+      const close = closingBar(input, i);
+      if (close > i) {
+        output += `abs(${convert(input.slice(i + 1, close))})`;
+        i = close + 1;
+        continue;
+      }
+    }
+
+    output += char;
+    i += 1;
+  }
+
+  return output;
+}
+
+// Typed input writes absolute values as |x| too, which mathjs does not parse.
+export function rewriteAbsoluteBars(input: string): string {
+  let output = '';
+  for (let i = 0; i < input.length; i += 1) {
+    const close = input[i] === '|' ? closingBar(input, i) : -1;
+    if (close > i) {
+      output += `abs(${rewriteAbsoluteBars(input.slice(i + 1, close))})`;
+      i = close;
+    } else {
+      output += input[i];
+    }
+  }
+  return output;
+}
+
+export function pastedExpression(current: string, pasted: string, start: number, end: number): string | null {
+  if (!looksLikeLatex(pasted)) {
+    return null;
+  }
+  return `${current.slice(0, start)}${latexToMath(pasted)}${current.slice(end)}`;
+}
+
+export function latexToMath(input: string): string {
+  const stripped = input
+    .trim()
+    .replace(/^\$+|\$+$/g, '')
+    .replace(/^\\\[|\\\]$/g, '')
+    .trim();
+
+  return convert(rewriteIntegrals(rewriteCases(rewriteDelimiters(stripped))))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
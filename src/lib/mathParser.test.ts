@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectMathContext,
+  parseParameterDefinition,
+  prepareMath,
+  sampleExpression,
+  sampleImplicitContours,
+  sampleInequalityRegion
+} from './mathParser';
+
+describe('parseParameterDefinition', () => {
+  it.each(['try', 'rt', 'xx', 'ty', 'xy', 'a'])('accepts %s as a parameter name', (name) => {
+    expect(parseParameterDefinition(`${name} = 2`)).toEqual({ name, value: 2 });
+  });
+
+  it.each(['x', 'y', 't', 'r', 'theta', 'pi', 'e'])('reserves %s', (name) => {
+    expect(parseParameterDefinition(`${name} = 2`)).toBeNull();
+  });
+});
+
+describe('prepareMath', () => {
+  it('keeps plotting variables out of parameter rows', () => {
+    expect(prepareMath('x = 2').mode).toBe('mirrored');
+    expect(prepareMath('y = 2').mode).toBe('explicit');
+    expect(prepareMath('r = 2').mode).toBe('polar');
+  });
+
+  it('uses parameters whose names contain plotting letters', () => {
+    const context = collectMathContext(['try = 2', 'try*x']);
+    const prepared = prepareMath('try*x', context);
+    expect(prepared.error).toBeNull();
+    expect(prepared.evaluator?.(3)).toBe(6);
+  });
+
+  it('only offers a definition hint for names that can be defined', () => {
+    expect(prepareMath('q*x').error).toContain('define it with a row like q = 1');
+    expect(prepareMath('t*x').error).not.toContain('define it');
+  });
+});
+
+describe('reserved constants', () => {
+  it.each(['e = 3', 'pi = 3.2'])('reports %s instead of drawing nothing', (input) => {
+    const prepared = prepareMath(input);
+    expect(prepared.error).toContain('reserved constant');
+    expect(prepared.diagnostics).toHaveLength(1);
+  });
+
+  it('still plots equations that only mention a constant on the left', () => {
+    expect(prepareMath('e = x^2').error).toBeNull();
+  });
+});
+
+describe('parametric and polar rows', () => {
+  const ts = Float64Array.from([0, 0.5, 1, 2, 3]);
+
+  it.each([
+    ['(t^2, 3*t - 1)', 'radians'],
+    ['(cos(t), sin(2*t))', 'radians'],
+    ['r = 1 + cos(theta)', 'radians'],
+    ['r = 2*sin(3*theta)', 'degrees']
+  ] as const)('batches %s like the point evaluator in %s', (input, angleMode) => {
+    const prepared = prepareMath(input, collectMathContext([input], [], angleMode));
+    expect(prepared.error).toBeNull();
+
+    const [xs, ys] = prepared.curveBatchEvaluator?.(ts) ?? [[], []];
+    ts.forEach((t, index) => {
+      const point = prepared.curveEvaluator?.(t);
+      expect(xs[index]).toBeCloseTo(point?.x ?? Number.NaN, 12);
+      expect(ys[index]).toBeCloseTo(point?.y ?? Number.NaN, 12);
+    });
+  });
+
+  it('measures polar angles in the angle mode', () => {
+    const point = prepareMath('r = 2', collectMathContext([], [], 'degrees')).curveEvaluator?.(90);
+    expect(point?.x).toBeCloseTo(0, 12);
+    expect(point?.y).toBeCloseTo(2, 12);
+  });
+
+  it('breaks curves where a component is undefined', () => {
+    const prepared = prepareMath('(t, sqrt(t))');
+    expect(prepared.curveEvaluator?.(-1)).toBeNull();
+    expect(Number.isNaN(prepared.curveBatchEvaluator?.(Float64Array.of(-1))[1][0])).toBe(true);
+  });
+});
+
+describe('fit rows', () => {
+  it('fits coefficients against a table column', () => {
+    const columns = [
+      { name: 'x1', values: [1, 2, 3, 4] },
+      { name: 'y1', values: [3, 5, 7, 9] }
+    ];
+    const prepared = prepareMath('y1 ~ m*x1 + b', collectMathContext([], columns));
+    expect(prepared.error).toBeNull();
+    expect(prepared.fit?.coefficients.m).toBeCloseTo(2, 8);
+    expect(prepared.fit?.coefficients.b).toBeCloseTo(1, 8);
+  });
+});
+
+describe('inequality rows', () => {
+  it.each([
+    ['y <= 2x + 1', '<='],
+    ['2x + 1 > y', '<'],
+    ['y > sin(x)', '>']
+  ])('uses the explicit boundary of %s', (input, relation) => {
+    const prepared = prepareMath(input);
+    expect(prepared.mode).toBe('inequality');
+    expect(prepared.inequality).toEqual({ relation, boundary: 'explicit' });
+    expect(prepared.evaluator?.(2)).toBeCloseTo(input.includes('sin') ? Math.sin(2) : 5, 12);
+  });
+
+  it('shades the disk x^2 + y^2 <= 4 from its implicit boundary', () => {
+    const prepared = prepareMath('x^2 + y^2 <= 4');
+    expect(prepared.inequality).toEqual({ relation: '<=', boundary: 'implicit' });
+
+    const view = { xMin: -3, xMax: 3, yMin: -3, yMax: 3 };
+    const evaluator = prepared.implicitEvaluator ?? (() => null);
+    const cells = sampleInequalityRegion(evaluator, '<=', view, 200, prepared.batchEvaluator);
+    const area = cells.reduce((sum, cell) => sum + (cell.x1 - cell.x0) * (cell.y1 - cell.y0), 0);
+    expect(area).toBeCloseTo(4 * Math.PI, 1);
+    cells.forEach((cell) => {
+      expect(Math.hypot((cell.x0 + cell.x1) / 2, (cell.y0 + cell.y1) / 2)).toBeLessThan(2);
+    });
+  });
+
+  it('merges each row of inside cells into one run', () => {
+    const view = { xMin: 0, xMax: 4, yMin: 0, yMax: 4 };
+    const cells = sampleInequalityRegion((x) => x - 1, '>', view, 40);
+    expect(cells).toHaveLength(40);
+    cells.forEach((cell) => {
+      expect(cell.x0).toBeCloseTo(1, 12);
+      expect(cell.x1).toBe(4);
+    });
+  });
+});
+
+describe('sampleExpression', () => {
+  const view = { xMin: -5, xMax: 5, yMin: -5, yMax: 5 };
+  const sample = (input: string, viewport = view, yScale?: number) => {
+    const evaluator = prepareMath(input).evaluator ?? (() => null);
+    return sampleExpression(evaluator, viewport.xMin, viewport.xMax, 400, viewport, null, yScale);
+  };
+
+  it('draws smooth curves as one segment without breaks', () => {
+    const { segments, breaks } = sample('sin(x)');
+    expect(segments).toHaveLength(1);
+    expect(breaks).toEqual([]);
+    expect(segments[0][0].x).toBe(-5);
+    expect(segments[0][segments[0].length - 1].x).toBe(5);
+  });
+
+  it.each([
+    ['1/(x - 1)', [1]],
+    ['tan(x)', [-1.5, -0.5, 0.5, 1.5].map((turns) => turns * Math.PI)]
+  ])('locates the asymptotes of %s', (input, poles) => {
+    const { segments, breaks } = sample(input);
+    expect(breaks.map((item) => item.kind)).toEqual(poles.map(() => 'asymptote'));
+    breaks.forEach((item, index) => expect(item.x).toBeCloseTo(poles[index], 4));
+    expect(segments).toHaveLength(poles.length + 1);
+  });
+
+  it('stops at domain edges', () => {
+    const { segments, breaks } = sample('sqrt(x - 0.3)');
+    expect(breaks).toHaveLength(1);
+    expect(breaks[0].kind).toBe('domain-edge');
+    expect(breaks[0].x).toBeCloseTo(0.3, 4);
+    expect(segments).toHaveLength(1);
+    expect(segments[0][0].x).toBeCloseTo(0.3, 4);
+  });
+
+  it('separates jumps without joining the pieces', () => {
+    const { segments, breaks } = sample('floor(x + 0.5)');
+    expect(breaks.map((item) => item.kind)).toEqual(Array(10).fill('jump'));
+    breaks.forEach((item, index) => expect(item.x).toBeCloseTo(index - 4.5, 4));
+    segments.forEach((segment) => expect(new Set(segment.map((point) => point.y)).size).toBe(1));
+  });
+
+  it('refines steep stretches more densely than flat ones', () => {
+    const [segment] = sample('atan(50*x)').segments;
+    const near = segment.filter((point) => Math.abs(point.x) < 0.25).length;
+    const far = segment.filter((point) => point.x > 4.5).length;
+    expect(near).toBeGreaterThan(2 * far);
+  });
+
+  it('takes the y scale separately from an unbounded viewport', () => {
+    const unbounded = { xMin: -5, xMax: 5, yMin: -Infinity, yMax: Infinity };
+    expect(sample('floor(x + 0.5)', unbounded, 10).breaks).toHaveLength(10);
+    expect(sample('sin(x)', unbounded, 10).segments).toHaveLength(1);
+  });
+});
+
+describe('sampleImplicitContours', () => {
+  const view = { xMin: -5, xMax: 5, yMin: -5, yMax: 5 };
+  const closed = (path: Array<{ x: number; y: number }>) =>
+    path[0].x === path[path.length - 1].x && path[0].y === path[path.length - 1].y;
+
+  it('stitches a circle into one closed loop', () => {
+    const paths = sampleImplicitContours((x, y) => x * x + y * y - 4, view, 400);
+    expect(paths).toHaveLength(1);
+    expect(closed(paths[0])).toBe(true);
+    paths[0].forEach((point) => expect(Math.hypot(point.x, point.y)).toBeCloseTo(2, 3));
+  });
+
+  it('keeps separate components apart', () => {
+    const twoCircles = (x: number, y: number) => ((x - 2) ** 2 + y * y - 1) * ((x + 2) ** 2 + y * y - 1);
+    const rings = sampleImplicitContours(twoCircles, view, 400);
+    expect(rings).toHaveLength(2);
+    expect(rings.every(closed)).toBe(true);
+
+    const branches = sampleImplicitContours((x, y) => x * y - 1, view, 400);
+    expect(branches).toHaveLength(2);
+    expect(branches.some(closed)).toBe(false);
+  });
+
+  it('stitches across cells refined to different depths', () => {
+    // Scattered gaps on the left are refined all the way down, so the budget runs out partway up the view.
+    const gap = (x: number, y: number) => Math.abs(Math.sin(x * 12.9898 + y * 78.233) * 43758.5453) % 1 < 0.5;
+    const circle = (x: number, y: number) => (x >= 0 ? (x - 2.5) ** 2 + y * y - 4 : gap(x, y) ? null : 1);
+    const paths = sampleImplicitContours(circle, view, 4096);
+    expect(paths).toHaveLength(1);
+    expect(closed(paths[0])).toBe(true);
+
+    const gaps = paths[0].slice(1).map((point, index) => {
+      const previous = paths[0][index];
+      return Math.hypot(point.x - previous.x, point.y - previous.y);
+    });
+    expect(Math.min(...gaps)).toBeLessThan(0.02);
+    expect(Math.max(...gaps)).toBeGreaterThan(0.1);
+    paths[0].forEach((point) => expect(Math.hypot(point.x - 2.5, point.y)).toBeCloseTo(2, 3));
+  });
+});
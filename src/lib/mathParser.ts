@@ -1,7 +1,50 @@
 import { all, create, type MathNode } from 'mathjs';
-import type { Point, Viewport } from '../types';
+import type {
+  AngleMode,
+  BatchEvaluator,
+  CurveBatchEvaluator,
+  CurveBreak,
+  CurveBreakKind,
+  DataColumn,
+  Diagnostic,
+  FitResult,
+  InequalityInfo,
+  InequalityRelation,
+  ParameterDefinition,
+  PiecewisePiece,
+  Point,
+  SampledCurve,
+  UserFunction,
+  Viewport
+} from '../types';
+import {
+  CALCULUS_FUNCTIONS,
+  DERIVATIVE_FUNCTION,
+  INTEGRAL_FUNCTION,
+  INTEGRATION_VARIABLE,
+  NUMERIC_DERIVATIVE_FUNCTION,
+  calculusTex,
+  parseDerivativeName,
+  registerCalculusFunctions,
+  rewriteCalculusSyntax
+} from './calculus';
+import { errorDiagnostic } from './diagnostics';
+import { binaryEvaluator, compileFast, gridInputs, unaryEvaluator } from './fastEvaluator';
+import {
+  ANGLE_FUNCTIONS,
+  FUNCTION_ARITY,
+  angleFunctions,
+  arityError,
+  libraryTex,
+  registerLibraryFunctions
+} from './functionLibrary';
+import { latexToMath, looksLikeLatex, rewriteAbsoluteBars } from './latexInput';
+import { casesTex, extractPieces, rewritePiecewiseSyntax } from './piecewise';
+import { coefficientOfDetermination, fitLeastSquares } from './regression';
 
 const math = create(all, {});
+registerCalculusFunctions(math);
+registerLibraryFunctions(math);
 
 const BLOCKED_NODE_TYPES = new Set([
   'AssignmentNode',
@@ -15,41 +58,328 @@ const BLOCKED_NODE_TYPES = new Set([
 ]);
 
 const BASE_ALLOWED_SYMBOLS = new Set(['x', 'pi', 'e']);
+const MIRRORED_ALLOWED_SYMBOLS = new Set(['y', 'pi', 'e']);
 const IMPLICIT_ALLOWED_SYMBOLS = new Set(['x', 'y', 'pi', 'e']);
+const PARAMETRIC_ALLOWED_SYMBOLS = new Set(['t', 'pi', 'e']);
+const POLAR_ALLOWED_SYMBOLS = new Set(['theta', 'pi', 'e']);
+const CONSTANT_SYMBOLS = new Set(['pi', 'e']);
+
+const RESERVED_NAMES = new Set(['x', 'y', 'z', 't', 'r', 'theta', 'pi', 'e', 'i']);
+const PARAMETER_DEFINITION_PATTERN = /^([A-Za-z][A-Za-z0-9_]*)\s*=\s*(.+)$/;
+const FUNCTION_DEFINITION_PATTERN =
+  /^([A-Za-z][A-Za-z0-9_]*)\s*\(\s*([A-Za-z][A-Za-z0-9_]*(?:\s*,\s*[A-Za-z][A-Za-z0-9_]*)*)\s*\)\s*=\s*(.+)$/;
+
+const ALLOWED_FUNCTIONS = new Set(Object.keys(FUNCTION_ARITY));
+
+const CURVATURE_LEVELS = 6;
+const BREAK_LEVELS = 14;
+const FLATNESS = 1e-3;
+const JUMP_FRACTION = 0.02;
+const CONTOUR_EVALUATION_BUDGET = 250000;
+
+export interface MathContext {
+  parameters: Record<string, number>;
+  functions: Record<string, UserFunction>;
+  columns: Record<string, Array<number | null>>;
+  angleMode: AngleMode;
+}
 
-const ALLOWED_FUNCTIONS = new Set([
-  'sin',
-  'cos',
-  'tan',
-  'asin',
-  'acos',
-  'atan',
-  'sqrt',
-  'abs',
-  'log',
-  'log10',
-  'exp'
-]);
+export const EMPTY_MATH_CONTEXT: MathContext = {
+  parameters: {},
+  functions: {},
+  columns: {},
+  angleMode: 'radians'
+};
 
 export interface PreparedMath {
-  mode: 'explicit' | 'implicit';
+  mode:
+    | 'explicit'
+    | 'mirrored'
+    | 'implicit'
+    | 'parameter'
+    | 'function'
+    | 'parametric'
+    | 'polar'
+    | 'inequality'
+    | 'point';
   normalizedInput: string;
+  sourceKey: string;
   latex: string | null;
   error: string | null;
   evaluator: ((x: number) => number | null) | null;
   implicitEvaluator: ((x: number, y: number) => number | null) | null;
+  curveEvaluator: ((t: number) => Point | null) | null;
+  curveBatchEvaluator: CurveBatchEvaluator | null;
+  fullTurn: number | null;
+  batchEvaluator: BatchEvaluator | null;
   node: MathNode | null;
+  componentNodes: [MathNode, MathNode] | null;
+  inequality: InequalityInfo | null;
+  pieces: PiecewisePiece[] | null;
+  points: Point[] | null;
+  fit: FitResult | null;
+  parameter: ParameterDefinition | null;
+  definition: UserFunction | null;
+  diagnostics: Diagnostic[];
+}
+
+function preparedResult(
+  mode: PreparedMath['mode'],
+  normalizedInput: string,
+  patch: Partial<PreparedMath> = {}
+): PreparedMath {
+  return {
+    mode,
+    normalizedInput,
+    sourceKey: normalizedInput,
+    latex: null,
+    error: null,
+    evaluator: null,
+    implicitEvaluator: null,
+    curveEvaluator: null,
+    curveBatchEvaluator: null,
+    fullTurn: null,
+    batchEvaluator: null,
+    node: null,
+    componentNodes: null,
+    inequality: null,
+    pieces: null,
+    points: null,
+    fit: null,
+    parameter: null,
+    definition: null,
+    diagnostics: [],
+    ...patch
+  };
 }
 
 export function normalizeInput(raw: string): string {
   const trimmed = raw.trim();
-  return trimmed.replace(/\*\*/g, '^').replace(/\bln\s*\(/g, 'log(');
+  const source = looksLikeLatex(trimmed) ? latexToMath(trimmed) : rewriteAbsoluteBars(trimmed);
+  return rewritePiecewiseSyntax(
+    rewriteCalculusSyntax(source.replace(/\*\*/g, '^').replace(/\bln\s*\(/g, 'log('))
+  );
+}
+
+export function texOf(node: MathNode): string {
+  return node.toTex({
+    parenthesis: 'auto',
+    handler: (child: MathNode, options: object) =>
+      casesTex(child, options) ?? calculusTex(child, options) ?? libraryTex(child, options)
+  });
+}
+
+export function splitTopLevel(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of input) {
+    if (char === '(' || char === '[' || char === '{') {
+      depth += 1;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth -= 1;
+    }
+
+    if (char === separator && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
+
+export function parsePointList(input: string): string[][] | null {
+  if (!input.startsWith('[') || !input.endsWith(']')) {
+    return null;
+  }
+
+  const items = splitTopLevel(input.slice(1, -1), ',');
+  const tuples = items.map((item) => parseTuple(item));
+  return tuples.every((tuple) => tuple !== null) ? (tuples as string[][]) : null;
+}
+
+export function parseTuple(input: string): string[] | null {
+  if (!input.startsWith('(') || !input.endsWith(')')) {
+    return null;
+  }
+
+  let depth = 0;
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (char === '(') {
+      depth += 1;
+    } else if (char === ')') {
+      depth -= 1;
+      if (depth === 0 && i !== input.length - 1) {
+        return null;
+      }
+    }
+  }
+
+  const parts = splitTopLevel(input.slice(1, -1), ',');
+  return parts.length >= 2 ? parts : null;
+}
+
+const RELATION_TEX: Record<InequalityRelation, string> = {
+  '<': '<',
+  '<=': '\\le',
+  '>': '>',
+  '>=': '\\ge'
+};
+
+const FLIPPED_RELATION: Record<InequalityRelation, InequalityRelation> = {
+  '<': '>',
+  '<=': '>=',
+  '>': '<',
+  '>=': '<='
+};
+
+export function splitRelation(
+  input: string
+): { left: string; relation: InequalityRelation; right: string } | null | 'chained' {
+  let depth = 0;
+  let found: { index: number; relation: InequalityRelation } | null = null;
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (char === '(' || char === '[' || char === '{') {
+      depth += 1;
+      continue;
+    }
+    if (char === ')' || char === ']' || char === '}') {
+      depth -= 1;
+      continue;
+    }
+    if (depth !== 0 || (char !== '<' && char !== '>')) {
+      continue;
+    }
+
+    if (found) {
+      return 'chained';
+    }
+
+    const relation = (input[i + 1] === '=' ? `${char}=` : char) as InequalityRelation;
+    found = { index: i, relation };
+    i += relation.length - 1;
+  }
+
+  if (!found) {
+    return null;
+  }
+
+  return {
+    left: input.slice(0, found.index).trim(),
+    relation: found.relation,
+    right: input.slice(found.index + found.relation.length).trim()
+  };
 }
 
-function validateNode(node: MathNode, allowedSymbols: Set<string>): string | null {
+export function satisfiesRelation(value: number, relation: InequalityRelation): boolean {
+  switch (relation) {
+    case '<':
+      return value < 0;
+    case '<=':
+      return value <= 0;
+    case '>':
+      return value > 0;
+    case '>=':
+      return value >= 0;
+  }
+}
+
+export function isStrictRelation(relation: InequalityRelation): boolean {
+  return relation === '<' || relation === '>';
+}
+
+export function withContextSymbols(baseSymbols: Set<string>, context: MathContext): Set<string> {
+  return new Set([...baseSymbols, ...Object.keys(context.parameters)]);
+}
+
+function callName(node: MathNode): string | null {
+  return node.type === 'FunctionNode' ? ((node as unknown as { fn: { name?: string } }).fn.name ?? null) : null;
+}
+
+function isSymbolNamed(node: MathNode, name: string): boolean {
+  return node.type === 'SymbolNode' && (node as unknown as { name: string }).name === name;
+}
+
+function isCallable(name: string, userFunctions: Record<string, UserFunction>): boolean {
+  return ALLOWED_FUNCTIONS.has(name) || name in userFunctions;
+}
+
+function functionReference(node: MathNode, userFunctions: Record<string, UserFunction>): string | null {
+  if (node.type !== 'SymbolNode') {
+    return null;
+  }
+  const name = (node as unknown as { name: string }).name;
+  if (name in userFunctions) {
+    return name;
+  }
+  return FUNCTION_ARITY[name]?.[0] === 1 ? name : null;
+}
+
+function validateIntegral(
+  args: MathNode[],
+  allowedSymbols: Set<string>,
+  userFunctions: Record<string, UserFunction>
+): string | null {
+  if (args.length !== 3) {
+    return 'integral expects three arguments, e.g. integral(f, 0, x).';
+  }
+
+  const [integrand, lower, upper] = args;
+  const reference = functionReference(integrand, userFunctions);
+  if (reference && reference in userFunctions && userFunctions[reference].params.length !== 1) {
+    return `Function "${reference}" must take one argument to be integrated.`;
+  }
+
+  if (!reference && !integrand.filter((child: MathNode) => isSymbolNamed(child, INTEGRATION_VARIABLE)).length) {
+    return `Write the integrand in terms of ${INTEGRATION_VARIABLE}, e.g. integral(${INTEGRATION_VARIABLE}^2, 0, x).`;
+  }
+
+  const integrandError = reference
+    ? null
+    : validateNode(integrand, new Set([...allowedSymbols, INTEGRATION_VARIABLE]), userFunctions);
+
+  return (
+    integrandError ??
+    validateNode(lower, allowedSymbols, userFunctions) ??
+    validateNode(upper, allowedSymbols, userFunctions)
+  );
+}
+
+export function validateNode(
+  node: MathNode,
+  allowedSymbols: Set<string>,
+  userFunctions: Record<string, UserFunction> = {}
+): string | null {
   let error: string | null = null;
+  const integralErrors: string[] = [];
 
-  node.traverse((child: MathNode, _path: string, parent: MathNode | null) => {
+  const outer = node.transform((child: MathNode) => {
+    if (callName(child) !== INTEGRAL_FUNCTION) {
+      return child;
+    }
+
+    const args = (child as unknown as { args: MathNode[] }).args;
+    const integralError = validateIntegral(args, allowedSymbols, userFunctions);
+    if (integralError) {
+      integralErrors.push(integralError);
+    }
+    return new math.ConstantNode(0);
+  });
+
+  if (integralErrors.length > 0) {
+    return integralErrors[0];
+  }
+
+  outer.traverse((child: MathNode, _path: string, parent: MathNode | null) => {
     if (error) {
       return;
     }
@@ -62,10 +392,19 @@ function validateNode(node: MathNode, allowedSymbols: Set<string>): string | nul
     if (child.type === 'FunctionNode') {
       const fnNode = child as unknown as {
         fn?: { type: string; name?: string };
+        args: MathNode[];
       };
       const fnName = fnNode.fn?.name;
-      if (!fnName || !ALLOWED_FUNCTIONS.has(fnName)) {
-        error = `Unsupported function "${fnName ?? 'unknown'}".`;
+      const derivative = fnName ? parseDerivativeName(fnName) : null;
+      const isCalculus =
+        fnName === DERIVATIVE_FUNCTION || (derivative !== null && isCallable(derivative.name, userFunctions));
+      if (!fnName || (!isCalculus && !isCallable(fnName, userFunctions))) {
+        const displayName = derivative ? `${derivative.name}${"'".repeat(derivative.order)}` : fnName;
+        error = `Unsupported function "${displayName ?? 'unknown'}".`;
+        return;
+      }
+      if (!(fnName in userFunctions)) {
+        error = arityError(fnName, fnNode.args.length);
       }
       return;
     }
@@ -82,7 +421,8 @@ function validateNode(node: MathNode, allowedSymbols: Set<string>): string | nul
 
       if (!allowedSymbols.has(name)) {
         const allowedList = [...allowedSymbols].join(', ');
-        error = `Unknown symbol "${name}". Use ${allowedList} as symbols.`;
+        const hint = RESERVED_NAMES.has(name) ? '' : `, or define it with a row like ${name} = 1`;
+        error = `Unknown symbol "${name}". Use ${allowedList} as symbols${hint}.`;
       }
     }
   });
@@ -90,7 +430,7 @@ function validateNode(node: MathNode, allowedSymbols: Set<string>): string | nul
   return error;
 }
 
-function toFiniteNumber(value: unknown): number | null {
+export function toFiniteNumber(value: unknown): number | null {
   if (typeof value === 'number') {
     return Number.isFinite(value) ? value : null;
   }
@@ -105,168 +445,782 @@ function toFiniteNumber(value: unknown): number | null {
   return null;
 }
 
-function prepareExplicit(input: string): PreparedMath {
+export function parseParameterDefinition(normalizedInput: string): ParameterDefinition | null {
+  const match = PARAMETER_DEFINITION_PATTERN.exec(normalizedInput);
+  if (!match) {
+    return null;
+  }
+
+  const name = match[1];
+  if (
+    RESERVED_NAMES.has(name) ||
+    ALLOWED_FUNCTIONS.has(name) ||
+    CALCULUS_FUNCTIONS.has(name)
+  ) {
+    return null;
+  }
+
+  try {
+    const node = math.parse(match[2]);
+    if (validateNode(node, CONSTANT_SYMBOLS)) {
+      return null;
+    }
+
+    const value = toFiniteNumber(node.compile().evaluate({}));
+    return value === null ? null : { name, value };
+  } catch {
+    return null;
+  }
+}
+
+export function collectParameters(rawInputs: string[]): Record<string, number> {
+  const parameters: Record<string, number> = {};
+
+  rawInputs.forEach((rawInput) => {
+    const definition = parseParameterDefinition(normalizeInput(rawInput));
+    if (definition && !(definition.name in parameters)) {
+      parameters[definition.name] = definition.value;
+    }
+  });
+
+  return parameters;
+}
+
+export function parseFunctionDefinition(normalizedInput: string): UserFunction | null {
+  const match = FUNCTION_DEFINITION_PATTERN.exec(normalizedInput);
+  if (!match) {
+    return null;
+  }
+
+  const name = match[1];
+  const params = match[2].split(',').map((param) => param.trim());
+  if (
+    RESERVED_NAMES.has(name) ||
+    ALLOWED_FUNCTIONS.has(name) ||
+    CALCULUS_FUNCTIONS.has(name) ||
+    parseDerivativeName(name) ||
+    new Set(params).size !== params.length
+  ) {
+    return null;
+  }
+
+  try {
+    return { name, params, body: math.parse(match[3]) };
+  } catch {
+    return null;
+  }
+}
+
+export function collectFunctions(rawInputs: string[]): Record<string, UserFunction> {
+  const functions: Record<string, UserFunction> = {};
+
+  rawInputs.forEach((rawInput) => {
+    const definition = parseFunctionDefinition(normalizeInput(rawInput));
+    if (definition && !(definition.name in functions)) {
+      functions[definition.name] = definition;
+    }
+  });
+
+  return functions;
+}
+
+export function collectMathContext(
+  rawInputs: string[],
+  columns: DataColumn[] = [],
+  angleMode: AngleMode = 'radians'
+): MathContext {
+  return {
+    parameters: collectParameters(rawInputs),
+    functions: collectFunctions(rawInputs),
+    columns: Object.fromEntries(columns.map((column) => [column.name, column.values])),
+    angleMode
+  };
+}
+
+// Tile caches key rows on this, so edits to other rows and sliders a row does not use keep its sampled tiles.
+export function sourceKey(normalizedInput: string, context: MathContext): string {
+  const parts = [context.angleMode, normalizedInput];
+  const seen = new Set<string>();
+  const visit = (text: string) => {
+    (text.match(/[A-Za-z_]\w*/g) ?? []).forEach((name) => {
+      if (seen.has(name)) {
+        return;
+      }
+      seen.add(name);
+
+      const own = (record: object) => Object.prototype.hasOwnProperty.call(record, name);
+      const definition = own(context.functions) ? context.functions[name] : null;
+      if (own(context.parameters)) {
+        parts.push(`${name} = ${context.parameters[name]}`);
+      } else if (definition) {
+        const body = definition.body.toString();
+        parts.push(`${name}(${definition.params.join(', ')}) = ${body}`);
+        visit(body);
+      } else if (own(context.columns)) {
+        parts.push(`${name} = [${context.columns[name].join(', ')}]`);
+      }
+    });
+  };
+
+  visit(normalizedInput);
+  return parts.join('\n');
+}
+
+export function evaluationScope(context: MathContext): Record<string, unknown> {
+  return { ...context.parameters, ...angleFunctions(context.angleMode) };
+}
+
+function substituteSymbols(node: MathNode, replacements: Record<string, MathNode>): MathNode {
+  return node.transform((child: MathNode, path: string) => {
+    if (child.type !== 'SymbolNode' || path === 'fn') {
+      return child;
+    }
+
+    const name = (child as unknown as { name: string }).name;
+    const replacement = replacements[name];
+    return replacement ? new math.ParenthesisNode(replacement) : child;
+  });
+}
+
+function numericDerivative(node: MathNode, variable: string, order: number): MathNode {
+  let result = node;
+  for (let i = 0; i < order; i += 1) {
+    result = new math.FunctionNode(NUMERIC_DERIVATIVE_FUNCTION, [
+      result,
+      new math.SymbolNode(variable),
+      new math.SymbolNode(variable)
+    ]);
+  }
+  return result;
+}
+
+function differentiate(node: MathNode, variable: string, order: number, angleMode: AngleMode): MathNode {
+  // mathjs differentiates trig in radians, so degree-mode trig falls back to finite differences.
+  if (angleMode === 'degrees' && node.filter((child: MathNode) => ANGLE_FUNCTIONS.has(callName(child) ?? '')).length) {
+    return numericDerivative(node, variable, order);
+  }
+
+  try {
+    let result = node;
+    for (let i = 0; i < order; i += 1) {
+      result = math.derivative(result, variable);
+    }
+    return result;
+  } catch {
+    return numericDerivative(node, variable, order);
+  }
+}
+
+function singleVariableBody(
+  name: string,
+  context: MathContext,
+  stack: string[]
+): { param: string; body: MathNode } {
+  const definition = context.functions[name];
+  if (!definition) {
+    return { param: 'u', body: new math.FunctionNode(name, [new math.SymbolNode('u')]) };
+  }
+
+  if (stack.includes(definition.name)) {
+    throw new Error(`Function "${definition.name}" cannot refer to itself.`);
+  }
+  if (definition.params.length !== 1) {
+    throw new Error(`Function "${definition.name}" must take one argument to be differentiated or integrated.`);
+  }
+
+  return { param: definition.params[0], body: expandNode(definition.body, context, [...stack, definition.name]) };
+}
+
+function expandDerivativeCall(
+  name: string,
+  order: number,
+  args: MathNode[],
+  context: MathContext,
+  stack: string[]
+): MathNode {
+  if (args.length !== 1) {
+    throw new Error(`${name}${"'".repeat(order)} expects 1 argument, got ${args.length}.`);
+  }
+
+  const { param, body } = singleVariableBody(name, context, stack);
+  const arg = expandNode(args[0], context, stack);
+  const derivative = differentiate(body, param, order, context.angleMode);
+
+  if (callName(derivative) === NUMERIC_DERIVATIVE_FUNCTION) {
+    const numeric = derivative as unknown as { args: MathNode[] };
+    return new math.FunctionNode(NUMERIC_DERIVATIVE_FUNCTION, [numeric.args[0], numeric.args[1], arg]);
+  }
+
+  return new math.ParenthesisNode(substituteSymbols(derivative, { [param]: arg }));
+}
+
+function expandIntegral(args: MathNode[], context: MathContext, stack: string[]): MathNode {
+  if (args.length !== 3) {
+    throw new Error('integral expects three arguments, e.g. integral(f, 0, x).');
+  }
+
+  const [integrand, lower, upper] = args;
+  const reference = functionReference(integrand, context.functions);
+  const body = reference
+    ? new math.FunctionNode(reference, [new math.SymbolNode(INTEGRATION_VARIABLE)])
+    : integrand;
+
+  return new math.FunctionNode(INTEGRAL_FUNCTION, [
+    expandNode(body, context, stack),
+    expandNode(lower, context, stack),
+    expandNode(upper, context, stack)
+  ]);
+}
+
+function expandNode(node: MathNode, context: MathContext, stack: string[]): MathNode {
+  return node.transform((child: MathNode) => {
+    if (child.type !== 'FunctionNode') {
+      return child;
+    }
+
+    const fnNode = child as unknown as { fn: { name?: string }; args: MathNode[] };
+    const name = fnNode.fn.name ?? '';
+
+    if (name === DERIVATIVE_FUNCTION) {
+      if (fnNode.args.length !== 1) {
+        throw new Error('d/dx expects a single expression, e.g. d/dx(x^2).');
+      }
+      return new math.ParenthesisNode(differentiate(expandNode(fnNode.args[0], context, stack), 'x', 1, context.angleMode));
+    }
+
+    if (name === INTEGRAL_FUNCTION) {
+      return expandIntegral(fnNode.args, context, stack);
+    }
+
+    const derivative = parseDerivativeName(name);
+    if (derivative) {
+      return expandDerivativeCall(derivative.name, derivative.order, fnNode.args, context, stack);
+    }
+
+    const definition = context.functions[name];
+    if (!definition) {
+      return child;
+    }
+
+    if (stack.includes(definition.name)) {
+      throw new Error(`Function "${definition.name}" cannot refer to itself.`);
+    }
+
+    if (fnNode.args.length !== definition.params.length) {
+      throw new Error(
+        `Function "${definition.name}" expects ${definition.params.length} argument(s), got ${fnNode.args.length}.`
+      );
+    }
+
+    const args = fnNode.args.map((arg) => expandNode(arg, context, stack));
+    const body = expandNode(definition.body, context, [...stack, definition.name]);
+    const replacements = Object.fromEntries(definition.params.map((param, index) => [param, args[index]]));
+    return new math.ParenthesisNode(substituteSymbols(body, replacements));
+  });
+}
+
+export function expandUserFunctions(node: MathNode, context: MathContext): MathNode {
+  return expandNode(node, context, []);
+}
+
+function prepareParameter(input: string, parameter: ParameterDefinition): PreparedMath {
+  return preparedResult('parameter', input, {
+    latex: `${parameter.name} = ${parameter.value}`,
+    parameter
+  });
+}
+
+function prepareExplicit(input: string, context: MathContext): PreparedMath {
   try {
     const node = math.parse(input);
-    const validationError = validateNode(node, BASE_ALLOWED_SYMBOLS);
+    const validationError = validateNode(node, withContextSymbols(BASE_ALLOWED_SYMBOLS, context), context.functions);
 
     if (validationError) {
-      return {
-        mode: 'explicit',
-        normalizedInput: input,
-        latex: null,
-        error: validationError,
-        evaluator: null,
-        implicitEvaluator: null,
-        node: null
-      };
+      return preparedResult('explicit', input, { error: validationError });
     }
 
-    const compiled = node.compile();
-    const latex = node.toTex({ parenthesis: 'auto' });
+    const expanded = expandUserFunctions(node, context);
+    const fast = compileFast(expanded, ['x'], evaluationScope(context));
 
-    const evaluator = (x: number): number | null => {
-      try {
-        const value = compiled.evaluate({ x });
-        return toFiniteNumber(value);
-      } catch {
-        return null;
+    return preparedResult('explicit', input, {
+      latex: texOf(node),
+      evaluator: unaryEvaluator(fast),
+      batchEvaluator: fast.batch,
+      node: expanded,
+      pieces: extractPieces(expanded, evaluationScope(context))
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to parse expression.';
+    return preparedResult('explicit', input, { error: message });
+  }
+}
+
+function prepareMirrored(input: string, body: string, context: MathContext): PreparedMath {
+  try {
+    const node = math.parse(body);
+    const allowedSymbols = withContextSymbols(MIRRORED_ALLOWED_SYMBOLS, context);
+    const validationError = validateNode(node, allowedSymbols, context.functions);
+
+    if (validationError) {
+      return preparedResult('mirrored', input, { error: validationError });
+    }
+
+    const expanded = expandUserFunctions(node, context);
+    const fast = compileFast(expanded, ['y'], evaluationScope(context));
+
+    return preparedResult('mirrored', input, {
+      latex: `x = ${texOf(node)}`,
+      evaluator: unaryEvaluator(fast),
+      batchEvaluator: fast.batch,
+      node: expanded
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to parse expression.';
+    return preparedResult('mirrored', input, { error: message });
+  }
+}
+
+function prepareImplicit(input: string, left: string, right: string, context: MathContext): PreparedMath {
+  try {
+    const node = math.parse(`(${left}) - (${right})`);
+    const allowedSymbols = withContextSymbols(IMPLICIT_ALLOWED_SYMBOLS, context);
+    const validationError = validateNode(node, allowedSymbols, context.functions);
+
+    if (validationError) {
+      return preparedResult('implicit', input, { latex: input, error: validationError });
+    }
+
+    const expanded = expandUserFunctions(node, context);
+    const fast = compileFast(expanded, ['x', 'y'], evaluationScope(context));
+
+    return preparedResult('implicit', input, {
+      latex: input,
+      implicitEvaluator: binaryEvaluator(fast),
+      batchEvaluator: fast.batch,
+      node: expanded
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to parse expression.';
+    return preparedResult('implicit', input, { latex: input, error: message });
+  }
+}
+
+function prepareParametric(input: string, components: string[], context: MathContext): PreparedMath {
+  if (components.length !== 2) {
+    return preparedResult('parametric', input, {
+      error: 'Parametric curves need exactly two components: (x(t), y(t)).'
+    });
+  }
+
+  try {
+    const allowedSymbols = withContextSymbols(PARAMETRIC_ALLOWED_SYMBOLS, context);
+    const nodes = components.map((component) => math.parse(component));
+
+    for (const node of nodes) {
+      const validationError = validateNode(node, allowedSymbols, context.functions);
+      if (validationError) {
+        return preparedResult('parametric', input, { error: validationError });
       }
+    }
+
+    const [xNode, yNode] = nodes.map((node) => expandUserFunctions(node, context));
+    const scope = evaluationScope(context);
+    const xFast = compileFast(xNode, ['t'], scope);
+    const yFast = compileFast(yNode, ['t'], scope);
+    const xAt = unaryEvaluator(xFast);
+    const yAt = unaryEvaluator(yFast);
+
+    const curveEvaluator = (t: number): Point | null => {
+      const x = xAt(t);
+      const y = yAt(t);
+      return x === null || y === null ? null : { x, y };
     };
+    const curveBatchEvaluator: CurveBatchEvaluator = (ts) => [xFast.batch([ts]), yFast.batch([ts])];
 
-    return {
-      mode: 'explicit',
-      normalizedInput: input,
+    const latex = `\\left(${texOf(nodes[0])},\\ ${texOf(nodes[1])}\\right)`;
+
+    return preparedResult('parametric', input, {
       latex,
-      error: null,
-      evaluator,
-      implicitEvaluator: null,
-      node
-    };
+      curveEvaluator,
+      curveBatchEvaluator,
+      componentNodes: [xNode, yNode]
+    });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to parse expression.';
-    return {
-      mode: 'explicit',
-      normalizedInput: input,
-      latex: null,
-      error: message,
-      evaluator: null,
-      implicitEvaluator: null,
-      node: null
-    };
+    const message = error instanceof Error ? error.message : 'Failed to parse parametric curve.';
+    return preparedResult('parametric', input, { error: message });
   }
 }
 
-function prepareImplicit(input: string, left: string, right: string): PreparedMath {
+function preparePoints(input: string, tuples: string[][], context: MathContext): PreparedMath {
+  if (tuples.some((tuple) => tuple.length !== 2)) {
+    return preparedResult('point', input, { error: 'Points need exactly two coordinates: (x, y).' });
+  }
+
   try {
-    const node = math.parse(`(${left}) - (${right})`);
-    const validationError = validateNode(node, IMPLICIT_ALLOWED_SYMBOLS);
+    const allowedSymbols = withContextSymbols(CONSTANT_SYMBOLS, context);
+    const nodes = tuples.map((tuple) => tuple.map((component) => math.parse(component)));
+
+    for (const node of nodes.flat()) {
+      const validationError = validateNode(node, allowedSymbols, context.functions);
+      if (validationError) {
+        return preparedResult('point', input, { error: validationError });
+      }
+    }
+
+    const points: Point[] = [];
+    for (const [xNode, yNode] of nodes) {
+      const x = toFiniteNumber(expandUserFunctions(xNode, context).evaluate(evaluationScope(context)));
+      const y = toFiniteNumber(expandUserFunctions(yNode, context).evaluate(evaluationScope(context)));
+      if (x === null || y === null) {
+        return preparedResult('point', input, { error: 'Point coordinates must evaluate to finite numbers.' });
+      }
+      points.push({ x, y });
+    }
+
+    const latex = nodes.map(([xNode, yNode]) => `\\left(${texOf(xNode)},\\ ${texOf(yNode)}\\right)`).join(',\\ ');
+    return preparedResult('point', input, { latex, points });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to parse point.';
+    return preparedResult('point', input, { error: message });
+  }
+}
 
+function constantNode(value: number): MathNode {
+  const rounded = Number(value.toPrecision(10));
+  const constant = new math.ConstantNode(Math.abs(rounded));
+  return rounded < 0 ? new math.OperatorNode('-', 'unaryMinus', [constant]) : constant;
+}
+
+function prepareFit(input: string, left: string, right: string, context: MathContext): PreparedMath {
+  const columnNames = Object.keys(context.columns);
+  const columnList = columnNames.length > 0 ? columnNames.join(', ') : 'none yet, add a table first';
+
+  if (!(left in context.columns)) {
+    return preparedResult('explicit', input, {
+      error: `Fit rows start with a table column, e.g. y1 ~ m*x1 + b. Available columns: ${columnList}.`
+    });
+  }
+
+  try {
+    const node = math.parse(right);
+    const symbols = [
+      ...new Set(
+        node
+          .filter((child: MathNode, path: string) => child.type === 'SymbolNode' && path !== 'fn')
+          .map((child: MathNode) => (child as unknown as { name: string }).name)
+      )
+    ];
+    const dataColumns = symbols.filter((name) => name in context.columns);
+
+    if (dataColumns.length !== 1) {
+      return preparedResult('explicit', input, {
+        error: `Fit models use exactly one data column, e.g. y1 ~ m*x1 + b. Available columns: ${columnList}.`
+      });
+    }
+
+    const column = dataColumns[0];
+    const coefficients = symbols.filter(
+      (name) => name !== column && !CONSTANT_SYMBOLS.has(name) && !(name in context.parameters)
+    );
+    const reserved = coefficients.find((name) => RESERVED_NAMES.has(name));
+    if (reserved) {
+      return preparedResult('explicit', input, {
+        error: `"${reserved}" is not a table column. Available columns: ${columnList}.`
+      });
+    }
+    if (coefficients.length === 0) {
+      return preparedResult('explicit', input, {
+        error: 'Fit models need at least one unknown coefficient, e.g. m and b.'
+      });
+    }
+
+    const allowedSymbols = withContextSymbols(new Set([...CONSTANT_SYMBOLS, column, ...coefficients]), context);
+    const validationError = validateNode(node, allowedSymbols, context.functions);
     if (validationError) {
-      return {
-        mode: 'implicit',
-        normalizedInput: input,
-        latex: input,
-        error: validationError,
-        evaluator: null,
-        implicitEvaluator: null,
-        node: null
-      };
+      return preparedResult('explicit', input, { error: validationError });
     }
 
-    const compiled = node.compile();
-    const implicitEvaluator = (x: number, y: number): number | null => {
-      try {
-        const value = compiled.evaluate({ x, y });
-        return toFiniteNumber(value);
-      } catch {
-        return null;
+    const expanded = expandUserFunctions(node, context);
+    const fast = compileFast(expanded, [...coefficients, column], evaluationScope(context));
+    const xs: number[] = [];
+    const ys: number[] = [];
+    context.columns[column].forEach((x, row) => {
+      const y = context.columns[left][row];
+      if (x !== null && y !== null && y !== undefined) {
+        xs.push(x);
+        ys.push(y);
       }
+    });
+
+    if (xs.length < coefficients.length) {
+      return preparedResult('explicit', input, {
+        error: `Need at least ${coefficients.length} complete rows to fit ${coefficients.join(', ')}.`
+      });
+    }
+
+    const env = new Float64Array(coefficients.length + 1);
+    const model = (params: number[], x: number): number | null => {
+      env.set(params);
+      env[coefficients.length] = x;
+      const value = fast.kernel(env);
+      return Number.isFinite(value) ? value : null;
+    };
+
+    const solution = fitLeastSquares(model, xs, ys, coefficients.length);
+    if (!solution) {
+      return preparedResult('explicit', input, { error: 'The fit did not converge for this model and data.' });
+    }
+
+    const fitted = Object.fromEntries(coefficients.map((name, index) => [name, solution.params[index]]));
+    const replacements: Record<string, MathNode> = {
+      [column]: new math.SymbolNode('x'),
+      ...Object.fromEntries(coefficients.map((name) => [name, constantNode(fitted[name])]))
     };
+    const curve = prepareExplicit(substituteSymbols(expanded, replacements).toString(), context);
 
     return {
-      mode: 'implicit',
+      ...curve,
       normalizedInput: input,
-      latex: input,
-      error: null,
-      evaluator: null,
-      implicitEvaluator,
-      node
+      latex: `${texOf(math.parse(left))} \\sim ${texOf(node)}`,
+      fit: {
+        column,
+        coefficients: fitted,
+        rSquared: coefficientOfDetermination(ys, solution.sse),
+        observations: xs.length
+      }
     };
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to parse expression.';
+    const message = error instanceof Error ? error.message : 'Failed to parse fit model.';
+    return preparedResult('explicit', input, { error: message });
+  }
+}
+
+function preparePolar(input: string, radius: string, context: MathContext): PreparedMath {
+  try {
+    const node = math.parse(radius);
+    const validationError = validateNode(node, withContextSymbols(POLAR_ALLOWED_SYMBOLS, context), context.functions);
+
+    if (validationError) {
+      return preparedResult('polar', input, { error: validationError });
+    }
+
+    const expanded = expandUserFunctions(node, context);
+    const fast = compileFast(expanded, ['theta'], evaluationScope(context));
+    const radiusAt = unaryEvaluator(fast);
+    // theta is measured in the row's angle mode, both inside r(theta) and for the turn itself.
+    const radians = context.angleMode === 'degrees' ? Math.PI / 180 : 1;
+
+    const curveEvaluator = (theta: number): Point | null => {
+      const r = radiusAt(theta);
+      return r === null ? null : { x: r * Math.cos(theta * radians), y: r * Math.sin(theta * radians) };
+    };
+    const curveBatchEvaluator: CurveBatchEvaluator = (thetas) => {
+      const rs = fast.batch([thetas]);
+      return [
+        rs.map((r, index) => r * Math.cos(thetas[index] * radians)),
+        rs.map((r, index) => r * Math.sin(thetas[index] * radians))
+      ];
+    };
+
+    return preparedResult('polar', input, {
+      latex: `r = ${texOf(node)}`,
+      curveEvaluator,
+      curveBatchEvaluator,
+      fullTurn: (2 * Math.PI) / radians,
+      node: expanded
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to parse polar curve.';
+    return preparedResult('polar', input, { error: message });
+  }
+}
+
+function prepareInequality(
+  input: string,
+  left: string,
+  relation: InequalityRelation,
+  right: string,
+  context: MathContext
+): PreparedMath {
+  if (!left || !right) {
+    return preparedResult('inequality', input, { error: 'Both sides of the inequality must be non-empty.' });
+  }
+
+  const leftUsesY = /\by\b/.test(left);
+  const rightUsesY = /\by\b/.test(right);
+
+  const explicitSide = left === 'y' && !rightUsesY ? right : right === 'y' && !leftUsesY ? left : null;
+
+  if (explicitSide !== null) {
+    const boundary = prepareExplicit(explicitSide, context);
+    if (boundary.error) {
+      return { ...boundary, mode: 'inequality', normalizedInput: input };
+    }
+
+    const normalizedRelation = left === 'y' ? relation : FLIPPED_RELATION[relation];
     return {
-      mode: 'implicit',
+      ...boundary,
+      mode: 'inequality',
       normalizedInput: input,
-      latex: input,
-      error: message,
-      evaluator: null,
-      implicitEvaluator: null,
-      node: null
+      latex: `y ${RELATION_TEX[normalizedRelation]} ${boundary.latex ?? ''}`,
+      inequality: { relation: normalizedRelation, boundary: 'explicit' },
+      pieces: null
     };
   }
+
+  const region = prepareImplicit(input, left, right, context);
+  if (region.error) {
+    return { ...region, mode: 'inequality' };
+  }
+
+  const leftTex = texOf(math.parse(left));
+  const rightTex = texOf(math.parse(right));
+  return {
+    ...region,
+    mode: 'inequality',
+    latex: `${leftTex} ${RELATION_TEX[relation]} ${rightTex}`,
+    inequality: { relation, boundary: 'implicit' }
+  };
 }
 
-export function prepareMath(rawInput: string): PreparedMath {
-  const normalizedInput = normalizeInput(rawInput);
+function prepareFunctionDefinition(input: string, definition: UserFunction, context: MathContext): PreparedMath {
+  const latex = `${definition.name}(${definition.params.join(', ')}) = ${texOf(definition.body)}`;
+
+  if (definition.params.length === 1 && definition.params[0] === 'x') {
+    const curve = prepareExplicit(definition.body.toString(), context);
+    return { ...curve, normalizedInput: input, latex: curve.error ? null : latex, definition };
+  }
+
+  const allowedSymbols = withContextSymbols(new Set([...CONSTANT_SYMBOLS, ...definition.params]), context);
+  const validationError = validateNode(definition.body, allowedSymbols, context.functions);
+  if (validationError) {
+    return preparedResult('function', input, { error: validationError, definition });
+  }
+
+  try {
+    expandUserFunctions(definition.body, context);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to expand function definition.';
+    return preparedResult('function', input, { error: message, definition });
+  }
+
+  return preparedResult('function', input, { latex, definition });
+}
+
+export function callableNames(context: MathContext): string[] {
+  return [...ALLOWED_FUNCTIONS, ...Object.keys(context.functions)];
+}
 
+function prepareNormalized(normalizedInput: string, context: MathContext): PreparedMath {
   if (!normalizedInput) {
-    return {
-      mode: 'explicit',
-      normalizedInput,
-      latex: null,
-      error: null,
-      evaluator: null,
-      implicitEvaluator: null,
-      node: null
-    };
+    return preparedResult('explicit', normalizedInput);
   }
 
-  const equalityParts = normalizedInput.split('=');
+  const parameter = parseParameterDefinition(normalizedInput);
+  if (parameter) {
+    return prepareParameter(normalizedInput, parameter);
+  }
+
+  const definition = parseFunctionDefinition(normalizedInput);
+  if (definition) {
+    return prepareFunctionDefinition(normalizedInput, definition, context);
+  }
+
+  const tuple = parseTuple(normalizedInput);
+  if (tuple) {
+    return /\bt\b/.test(normalizedInput)
+      ? prepareParametric(normalizedInput, tuple, context)
+      : preparePoints(normalizedInput, [tuple], context);
+  }
+
+  if (normalizedInput.startsWith('[')) {
+    const pointList = parsePointList(normalizedInput);
+    if (!pointList) {
+      return preparedResult('point', normalizedInput, { error: 'Point lists look like [(0, 0), (1, 2), (3, 1)].' });
+    }
+    return preparePoints(normalizedInput, pointList, context);
+  }
+
+  const fitParts = splitTopLevel(normalizedInput, '~');
+  if (fitParts.length === 2) {
+    return prepareFit(normalizedInput, fitParts[0], fitParts[1], context);
+  }
+
+  const inequality = splitRelation(normalizedInput);
+  if (inequality === 'chained') {
+    return preparedResult('inequality', normalizedInput, { error: 'Use a single inequality sign, e.g. y <= 2x + 1.' });
+  }
+  if (inequality) {
+    return prepareInequality(normalizedInput, inequality.left, inequality.relation, inequality.right, context);
+  }
+
+  const equalityParts = splitTopLevel(normalizedInput, '=');
 
   if (equalityParts.length === 2) {
     const left = equalityParts[0].trim();
     const right = equalityParts[1].trim();
 
     if (!left || !right) {
-      return {
-        mode: 'implicit',
-        normalizedInput,
+      return preparedResult('implicit', normalizedInput, {
         latex: normalizedInput,
-        error: 'Both sides of the equation must be non-empty.',
-        evaluator: null,
-        implicitEvaluator: null,
-        node: null
-      };
+        error: 'Both sides of the equation must be non-empty.'
+      });
+    }
+
+    if (CONSTANT_SYMBOLS.has(left) && !/\b[xy]\b/.test(right)) {
+      return preparedResult('implicit', normalizedInput, {
+        latex: normalizedInput,
+        error: `"${left}" is a reserved constant and cannot be redefined. Pick another name, e.g. ${left}1 = ${right}.`
+      });
+    }
+
+    if (left === 'r' && !/\br\b/.test(right)) {
+      return preparePolar(normalizedInput, right, context);
     }
 
     const rightUsesY = /\by\b/.test(right);
     const leftUsesY = /\by\b/.test(left);
 
     if (left === 'y' && !rightUsesY) {
-      return prepareExplicit(right);
+      return prepareExplicit(right, context);
     }
 
     if (right === 'y' && !leftUsesY) {
-      return prepareExplicit(left);
+      return prepareExplicit(left, context);
     }
 
-    return prepareImplicit(normalizedInput, left, right);
+    if (left === 'x' && !/\bx\b/.test(right)) {
+      return prepareMirrored(normalizedInput, right, context);
+    }
+
+    if (right === 'x' && !/\bx\b/.test(left)) {
+      return prepareMirrored(normalizedInput, left, context);
+    }
+
+    return prepareImplicit(normalizedInput, left, right, context);
   }
 
   if (equalityParts.length > 2) {
-    return {
-      mode: 'implicit',
-      normalizedInput,
+    return preparedResult('implicit', normalizedInput, {
       latex: normalizedInput,
-      error: 'Use exactly one equals sign in an equation.',
-      evaluator: null,
-      implicitEvaluator: null,
-      node: null
-    };
+      error: 'Use exactly one equals sign in an equation.'
+    });
+  }
+
+  return prepareExplicit(normalizedInput, context);
+}
+
+export function prepareMath(rawInput: string, context: MathContext = EMPTY_MATH_CONTEXT): PreparedMath {
+  const normalizedInput = normalizeInput(rawInput);
+  const prepared = { ...prepareNormalized(normalizedInput, context), sourceKey: sourceKey(normalizedInput, context) };
+  if (!prepared.error) {
+    return prepared;
   }
 
-  return prepareExplicit(normalizedInput);
+  return {
+    ...prepared,
+    diagnostics: [errorDiagnostic(rawInput, normalizedInput, prepared.error, callableNames(context))]
+  };
 }
 
 export function parseDomainBounds(
@@ -287,45 +1241,71 @@ export function parseDomainBounds(
   return { xMin, xMax };
 }
 
-export function sampleExpression(
-  evaluator: (x: number) => number | null,
-  xMin: number,
-  xMax: number,
+export function parseCurveDomain(
+  tMin: string,
+  tMax: string,
+  fullTurn: number | null = null
+): { tMin: number; tMax: number } {
+  const parsedMin = Number.parseFloat(tMin);
+  const parsedMax = Number.parseFloat(tMax);
+
+  const min = Number.isFinite(parsedMin) ? parsedMin : 0;
+  const max = Number.isFinite(parsedMax) ? parsedMax : fullTurn ?? 2 * Math.PI;
+
+  if (max <= min) {
+    return { tMin: Math.min(min, max), tMax: Math.max(min, max) + 1e-6 };
+  }
+
+  return { tMin: min, tMax: max };
+}
+
+export function sampleParametric(
+  curveEvaluator: (t: number) => Point | null,
+  tMin: number,
+  tMax: number,
   samples: number,
   viewport: Viewport,
-  maxAbsY = 1e6
+  batch: CurveBatchEvaluator | null = null,
+  maxAbs = 1e6
 ): Point[][] {
-  const clampedSamples = Math.max(32, Math.min(5000, Math.round(samples)));
+  const clampedSamples = Math.max(64, Math.min(5000, Math.round(samples)));
   const segments: Point[][] = [];
   let currentSegment: Point[] = [];
 
-  const ySpan = Math.max(1e-6, viewport.yMax - viewport.yMin);
-  const jumpThreshold = ySpan * 8;
-  let prevY: number | null = null;
+  const jumpThreshold = Math.max(viewport.xMax - viewport.xMin, viewport.yMax - viewport.yMin) * 4;
+  let prev: Point | null = null;
+
+  const ts = Float64Array.from({ length: clampedSamples + 1 }, (_, i) => tMin + (i / clampedSamples) * (tMax - tMin));
+  const batched = batch ? batch(ts) : null;
+  const pointAt = (i: number): Point | null => {
+    if (!batched) {
+      return curveEvaluator(ts[i]);
+    }
+    const [x, y] = [batched[0][i], batched[1][i]];
+    return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : null;
+  };
 
   for (let i = 0; i <= clampedSamples; i += 1) {
-    const t = i / clampedSamples;
-    const x = xMin + t * (xMax - xMin);
-    const y = evaluator(x);
+    const point = pointAt(i);
 
-    if (y === null || !Number.isFinite(y) || Math.abs(y) > maxAbsY) {
+    if (!point || Math.abs(point.x) > maxAbs || Math.abs(point.y) > maxAbs) {
       if (currentSegment.length > 1) {
         segments.push(currentSegment);
       }
       currentSegment = [];
-      prevY = null;
+      prev = null;
       continue;
     }
 
-    if (prevY !== null && Math.abs(y - prevY) > jumpThreshold) {
+    if (prev && Math.hypot(point.x - prev.x, point.y - prev.y) > jumpThreshold) {
       if (currentSegment.length > 1) {
         segments.push(currentSegment);
       }
       currentSegment = [];
     }
 
-    currentSegment.push({ x, y });
-    prevY = y;
+    currentSegment.push(point);
+    prev = point;
   }
 
   if (currentSegment.length > 1) {
@@ -335,116 +1315,367 @@ export function sampleExpression(
   return segments;
 }
 
-interface SegmentPoint {
+export function mirroredViewport(viewport: Viewport): Viewport {
+  return { xMin: viewport.yMin, xMax: viewport.yMax, yMin: viewport.xMin, yMax: viewport.xMax };
+}
+
+interface Sample {
   x: number;
-  y: number;
-}
-
-function edgeIntersection(
-  x1: number,
-  y1: number,
-  v1: number,
-  x2: number,
-  y2: number,
-  v2: number
-): SegmentPoint | null {
-  if (!Number.isFinite(v1) || !Number.isFinite(v2)) {
-    return null;
-  }
+  y: number | null;
+}
 
-  if (Math.abs(v1) < 1e-12 && Math.abs(v2) < 1e-12) {
-    return null;
-  }
+export function sampleExpression(
+  evaluator: (x: number) => number | null,
+  xMin: number,
+  xMax: number,
+  samples: number,
+  viewport: Viewport,
+  batch: BatchEvaluator | null = null,
+  yScale = viewport.yMax - viewport.yMin,
+  maxAbsY = 1e6
+): SampledCurve {
+  const clampedSamples = Math.max(32, Math.min(5000, Math.round(samples)));
+  const intervals = Math.max(16, Math.round(clampedSamples / 4));
+  // An unbounded viewport turns off offscreen culling; yScale alone then sets the jump and flatness tolerances.
+  const ySpan = Math.max(1e-6, yScale);
+  const segments: Point[][] = [];
+  const breaks: CurveBreak[] = [];
+  let current: Point[] = [];
+  let budget = clampedSamples * 8;
 
-  if (Math.abs(v1) < 1e-12) {
-    return { x: x1, y: y1 };
-  }
+  const sample = (x: number, y: number | null): Sample => {
+    budget -= 1;
+    return { x, y: y !== null && Number.isFinite(y) && Math.abs(y) <= maxAbsY ? y : null };
+  };
+  const evaluate = (x: number): Sample => sample(x, evaluator(x));
+  const side = (y: number): number => (y > viewport.yMax ? 1 : y < viewport.yMin ? -1 : 0);
+  const farOff = (y: number): boolean => y > viewport.yMax + ySpan / 2 || y < viewport.yMin - ySpan / 2;
+  const endSegment = (): void => {
+    if (current.length > 1) {
+      segments.push(current);
+    }
+    current = [];
+  };
+  const addBreak = (x: number, kind: CurveBreakKind): void => {
+    const last = breaks[breaks.length - 1];
+    if (last && current.length === 0 && x - last.x < (xMax - xMin) * 1e-4) {
+      last.x = (last.x + x) / 2;
+      last.kind = last.kind === 'asymptote' ? last.kind : kind;
+      return;
+    }
+    breaks.push({ x, kind });
+  };
 
-  if (Math.abs(v2) < 1e-12) {
-    return { x: x2, y: y2 };
-  }
+  const refine = (a: Sample, b: Sample, level: number): void => {
+    const canRefine = budget > 0 && level < BREAK_LEVELS;
 
-  if ((v1 > 0 && v2 > 0) || (v1 < 0 && v2 < 0)) {
-    return null;
+    if (a.y === null && b.y === null) {
+      if (canRefine && level < CURVATURE_LEVELS) {
+        const mid = evaluate((a.x + b.x) / 2);
+        if (mid.y !== null) {
+          refine(a, mid, level + 1);
+          refine(mid, b, level + 1);
+        }
+      }
+      return;
+    }
+
+    if (a.y === null || b.y === null) {
+      if (canRefine) {
+        const mid = evaluate((a.x + b.x) / 2);
+        refine(a, mid, level + 1);
+        refine(mid, b, level + 1);
+        return;
+      }
+
+      const edge = (a.y ?? b.y) as number;
+      const kind = farOff(edge) ? 'asymptote' : 'domain-edge';
+      if (a.y === null) {
+        addBreak(b.x, kind);
+        current.push({ x: b.x, y: edge });
+      } else {
+        addBreak(a.x, kind);
+        endSegment();
+      }
+      return;
+    }
+
+    const offscreenTogether = side(a.y) !== 0 && side(a.y) === side(b.y);
+    const steep = !offscreenTogether && Math.abs(b.y - a.y) > ySpan * JUMP_FRACTION;
+
+    if (canRefine && !offscreenTogether && (steep || level < CURVATURE_LEVELS)) {
+      const mid = evaluate((a.x + b.x) / 2);
+      if (steep || mid.y === null || Math.abs(mid.y - (a.y + b.y) / 2) > ySpan * FLATNESS) {
+        refine(a, mid, level + 1);
+        refine(mid, b, level + 1);
+        return;
+      }
+    }
+
+    // Out of budget the depth check cannot tell a jump from a steep stretch, so fall back to a coarse threshold.
+    if (steep && (level >= BREAK_LEVELS || Math.abs(b.y - a.y) > ySpan * 8)) {
+      endSegment();
+      addBreak((a.x + b.x) / 2, farOff(a.y) || farOff(b.y) ? 'asymptote' : 'jump');
+    }
+    current.push({ x: b.x, y: b.y });
+  };
+
+  const gridX = (i: number): number => xMin + (i / intervals) * (xMax - xMin);
+  const initial = batch ? batch([Float64Array.from({ length: intervals + 1 }, (_, i) => gridX(i))]) : null;
+  const gridSample = (i: number): Sample => (initial ? sample(gridX(i), initial[i]) : evaluate(gridX(i)));
+
+  let previous = gridSample(0);
+  if (previous.y !== null) {
+    current.push({ x: previous.x, y: previous.y });
   }
 
-  const t = v1 / (v1 - v2);
-  if (!Number.isFinite(t) || t < 0 || t > 1) {
-    return null;
+  for (let i = 1; i <= intervals; i += 1) {
+    const next = gridSample(i);
+    refine(previous, next, 0);
+    previous = next;
   }
 
-  return {
-    x: x1 + t * (x2 - x1),
-    y: y1 + t * (y2 - y1)
+  endSegment();
+  return { segments, breaks };
+}
+
+export function sampleMirrored(
+  evaluator: (y: number) => number | null,
+  yMin: number,
+  yMax: number,
+  samples: number,
+  viewport: Viewport
+): Point[][] {
+  const { segments } = sampleExpression(evaluator, yMin, yMax, samples, mirroredViewport(viewport));
+  return segments.map((segment) => segment.map((point) => ({ x: point.y, y: point.x })));
+}
+
+interface ContourPiece {
+  from: number;
+  to: number;
+  start: Point;
+  end: Point;
+}
+
+function stitchContours(pieces: ContourPiece[]): Point[][] {
+  const byEdge = new Map<number, number[]>();
+  pieces.forEach((piece, index) => {
+    byEdge.set(piece.from, [...(byEdge.get(piece.from) ?? []), index]);
+    byEdge.set(piece.to, [...(byEdge.get(piece.to) ?? []), index]);
+  });
+
+  const used = new Uint8Array(pieces.length);
+  const extend = (edge: number, append: (point: Point) => void): void => {
+    let current = edge;
+    for (;;) {
+      const next = (byEdge.get(current) ?? []).find((index) => !used[index]);
+      if (next === undefined) {
+        return;
+      }
+      used[next] = 1;
+      const piece = pieces[next];
+      const forward = piece.from === current;
+      append(forward ? piece.end : piece.start);
+      current = forward ? piece.to : piece.from;
+    }
   };
+
+  const polylines: Point[][] = [];
+  pieces.forEach((piece, index) => {
+    if (used[index]) {
+      return;
+    }
+    used[index] = 1;
+    const polyline = [piece.start, piece.end];
+    extend(piece.to, (point) => polyline.push(point));
+    extend(piece.from, (point) => polyline.unshift(point));
+    polylines.push(polyline);
+  });
+
+  return polylines;
 }
 
 export function sampleImplicitContours(
   evaluator: (x: number, y: number) => number | null,
   viewport: Viewport,
   samples: number,
+  batch: BatchEvaluator | null = null,
   maxAbsValue = 1e8
 ): Point[][] {
-  const resolution = Math.max(30, Math.min(180, Math.round(Math.sqrt(Math.max(1, samples)) * 2.2)));
-  const nx = resolution;
-  const ny = resolution;
-  const dx = (viewport.xMax - viewport.xMin) / nx;
-  const dy = (viewport.yMax - viewport.yMin) / ny;
+  const base = Math.max(16, Math.min(64, Math.round(Math.sqrt(Math.max(1, samples)) * 1.2)));
+  const finest = Math.max(128, Math.min(1024, Math.round(Math.sqrt(Math.max(1, samples)) * 16)));
+  const depth = Math.max(1, Math.round(Math.log2(finest / base)));
+  const cell = 2 ** depth;
+  const size = base * cell;
+  const dx = (viewport.xMax - viewport.xMin) / size;
+  const dy = (viewport.yMax - viewport.yMin) / size;
+  const values = new Map<number, number>();
+  const pieces: ContourPiece[] = [];
+  let budget = CONTOUR_EVALUATION_BUDGET;
+
+  const valueAt = (ix: number, iy: number): number => {
+    const key = iy * (size + 1) + ix;
+    let value = values.get(key);
+    if (value === undefined) {
+      budget -= 1;
+      const raw = evaluator(viewport.xMin + ix * dx, viewport.yMin + iy * dy);
+      value = raw === null || !Number.isFinite(raw) || Math.abs(raw) > maxAbsValue ? Number.NaN : raw;
+      values.set(key, value);
+    }
+    return value;
+  };
+
+  // Crossings are narrowed to a finest-level lattice edge and keyed by it, so cells of different depths share them.
+  const crossing = (ix: number, iy: number, step: number, vertical: boolean): { key: number; point: Point } | null => {
+    const at = (offset: number) => (vertical ? valueAt(ix, iy + offset) : valueAt(ix + offset, iy));
+    let [lo, hi] = [0, step];
+    let [a, b] = [at(lo), at(hi)];
+    if (!Number.isFinite(a) || !Number.isFinite(b) || a < 0 === b < 0) {
+      return null;
+    }
+    while (hi - lo > 1) {
+      const mid = (lo + hi) / 2;
+      const value = at(mid);
+      if (!Number.isFinite(value)) {
+        break;
+      }
+      if (value < 0 === a < 0) {
+        [lo, a] = [mid, value];
+      } else {
+        [hi, b] = [mid, value];
+      }
+    }
+    const t = lo + ((hi - lo) * a) / (a - b);
+    const [kx, ky] = vertical ? [ix, iy + lo] : [ix + lo, iy];
+    return {
+      key: (ky * (size + 1) + kx) * 2 + (vertical ? 1 : 0),
+      point: {
+        x: viewport.xMin + (vertical ? ix : ix + t) * dx,
+        y: viewport.yMin + (vertical ? iy + t : iy) * dy
+      }
+    };
+  };
 
-  const values: number[][] = Array.from({ length: ny + 1 }, () => Array.from({ length: nx + 1 }, () => NaN));
+  const emitCell = (ix: number, iy: number, step: number): void => {
+    const found = [
+      crossing(ix, iy, step, false),
+      crossing(ix + step, iy, step, true),
+      crossing(ix, iy + step, step, false),
+      crossing(ix, iy, step, true)
+    ].filter((edge): edge is { key: number; point: Point } => edge !== null);
 
-  for (let iy = 0; iy <= ny; iy += 1) {
-    const y = viewport.yMin + iy * dy;
-    for (let ix = 0; ix <= nx; ix += 1) {
-      const x = viewport.xMin + ix * dx;
-      const value = evaluator(x, y);
-      values[iy][ix] = value === null || !Number.isFinite(value) || Math.abs(value) > maxAbsValue ? NaN : value;
+    const connect = (a: { key: number; point: Point }, b: { key: number; point: Point }): void => {
+      pieces.push({ from: a.key, to: b.key, start: a.point, end: b.point });
+    };
+
+    if (found.length === 2) {
+      connect(found[0], found[1]);
+    } else if (found.length === 4) {
+      const centerValue = evaluator(viewport.xMin + (ix + step / 2) * dx, viewport.yMin + (iy + step / 2) * dy);
+      if (centerValue !== null && Number.isFinite(centerValue)) {
+        if (centerValue > 0) {
+          connect(found[0], found[3]);
+          connect(found[1], found[2]);
+        } else {
+          connect(found[0], found[1]);
+          connect(found[2], found[3]);
+        }
+      }
+    }
+  };
+
+  const visit = (ix: number, iy: number, step: number): void => {
+    if (step === 1 || budget <= 0) {
+      emitCell(ix, iy, step);
+      return;
     }
+
+    const half = step / 2;
+    const sampled = [
+      valueAt(ix, iy),
+      valueAt(ix + step, iy),
+      valueAt(ix + step, iy + step),
+      valueAt(ix, iy + step),
+      valueAt(ix + half, iy + half)
+    ];
+    const finite = sampled.filter((value) => Number.isFinite(value));
+    if (finite.length === 0) {
+      return;
+    }
+
+    const min = Math.min(...finite);
+    const max = Math.max(...finite);
+    const nearZero = Math.min(...finite.map(Math.abs)) <= max - min;
+    if (finite.length < sampled.length || (min < 0 && max >= 0) || nearZero) {
+      visit(ix, iy, half);
+      visit(ix + half, iy, half);
+      visit(ix, iy + half, half);
+      visit(ix + half, iy + half, half);
+    }
+  };
+
+  if (batch) {
+    const corners = batch(gridInputs(viewport.xMin, cell * dx, base + 1, viewport.yMin, cell * dy, base + 1));
+    corners.forEach((value, index) => {
+      const key = Math.floor(index / (base + 1)) * cell * (size + 1) + (index % (base + 1)) * cell;
+      values.set(key, Math.abs(value) > maxAbsValue ? Number.NaN : value);
+    });
+    budget -= corners.length;
   }
 
-  const segments: Point[][] = [];
+  for (let iy = 0; iy < size; iy += cell) {
+    for (let ix = 0; ix < size; ix += cell) {
+      visit(ix, iy, cell);
+    }
+  }
+
+  return stitchContours(pieces);
+}
+
+export interface RegionCell {
+  x0: number;
+  x1: number;
+  y0: number;
+  y1: number;
+}
 
-  for (let iy = 0; iy < ny; iy += 1) {
+export function sampleInequalityRegion(
+  evaluator: (x: number, y: number) => number | null,
+  relation: InequalityRelation,
+  viewport: Viewport,
+  resolution: number,
+  batch: BatchEvaluator | null = null
+): RegionCell[] {
+  const n = Math.max(20, Math.min(240, Math.round(resolution)));
+  const dx = (viewport.xMax - viewport.xMin) / n;
+  const dy = (viewport.yMax - viewport.yMin) / n;
+  const centers = batch ? batch(gridInputs(viewport.xMin + dx / 2, dx, n, viewport.yMin + dy / 2, dy, n)) : null;
+  const cells: RegionCell[] = [];
+
+  for (let iy = 0; iy < n; iy += 1) {
     const y0 = viewport.yMin + iy * dy;
-    const y1 = y0 + dy;
-
-    for (let ix = 0; ix < nx; ix += 1) {
-      const x0 = viewport.xMin + ix * dx;
-      const x1 = x0 + dx;
-
-      const v00 = values[iy][ix];
-      const v10 = values[iy][ix + 1];
-      const v11 = values[iy + 1][ix + 1];
-      const v01 = values[iy + 1][ix];
-
-      const intersections: SegmentPoint[] = [];
-
-      const bottom = edgeIntersection(x0, y0, v00, x1, y0, v10);
-      const right = edgeIntersection(x1, y0, v10, x1, y1, v11);
-      const top = edgeIntersection(x1, y1, v11, x0, y1, v01);
-      const left = edgeIntersection(x0, y1, v01, x0, y0, v00);
-
-      if (bottom) intersections.push(bottom);
-      if (right) intersections.push(right);
-      if (top) intersections.push(top);
-      if (left) intersections.push(left);
-
-      if (intersections.length === 2) {
-        segments.push([intersections[0], intersections[1]]);
-      } else if (intersections.length === 4) {
-        const centerValue = evaluator((x0 + x1) / 2, (y0 + y1) / 2);
-        if (centerValue !== null && Number.isFinite(centerValue)) {
-          if (centerValue > 0) {
-            segments.push([intersections[0], intersections[3]]);
-            segments.push([intersections[1], intersections[2]]);
-          } else {
-            segments.push([intersections[0], intersections[1]]);
-            segments.push([intersections[2], intersections[3]]);
-          }
-        }
+    let runStart: number | null = null;
+
+    for (let ix = 0; ix <= n; ix += 1) {
+      let inside = false;
+      if (ix < n) {
+        const value = centers ? centers[iy * n + ix] : evaluator(viewport.xMin + (ix + 0.5) * dx, y0 + dy / 2);
+        inside = value !== null && satisfiesRelation(value, relation);
+      }
+
+      if (inside && runStart === null) {
+        runStart = ix;
+      } else if (!inside && runStart !== null) {
+        cells.push({
+          x0: viewport.xMin + runStart * dx,
+          x1: viewport.xMin + ix * dx,
+          y0,
+          y1: y0 + dy
+        });
+        runStart = null;
       }
     }
   }
 
-  return segments;
+  return cells;
 }
@@ -1,169 +1,156 @@
 import { all, create, type MathNode } from 'mathjs';
-import { normalizeInput } from './mathParser';
+import type { BatchEvaluator, Diagnostic, ParameterDefinition, UserFunction } from '../types';
+import { registerCalculusFunctions } from './calculus';
+import { errorDiagnostic } from './diagnostics';
+import { binaryEvaluator, compileFast } from './fastEvaluator';
+import { registerLibraryFunctions } from './functionLibrary';
+import {
+  EMPTY_MATH_CONTEXT,
+  callableNames,
+  evaluationScope,
+  expandUserFunctions,
+  normalizeInput,
+  parseFunctionDefinition,
+  parseParameterDefinition,
+  sourceKey,
+  splitTopLevel,
+  texOf,
+  validateNode,
+  withContextSymbols,
+  type MathContext
+} from './mathParser';
 
 const math = create(all, {});
-
-const BLOCKED_NODE_TYPES = new Set([
-  'AssignmentNode',
-  'FunctionAssignmentNode',
-  'AccessorNode',
-  'IndexNode',
-  'RangeNode',
-  'ObjectNode',
-  'ArrayNode',
-  'BlockNode'
-]);
+registerCalculusFunctions(math);
+registerLibraryFunctions(math);
 
 const ALLOWED_SYMBOLS = new Set(['x', 'y', 'pi', 'e']);
-
-const ALLOWED_FUNCTIONS = new Set([
-  'sin',
-  'cos',
-  'tan',
-  'asin',
-  'acos',
-  'atan',
-  'sqrt',
-  'abs',
-  'log',
-  'log10',
-  'exp'
-]);
+const SURFACE_VARIABLES = new Set(['x', 'y']);
 
 export interface PreparedSurfaceMath {
   normalizedInput: string;
+  sourceKey: string;
   latex: string | null;
   error: string | null;
   evaluator: ((x: number, y: number) => number | null) | null;
+  batchEvaluator: BatchEvaluator | null;
   node: MathNode | null;
+  parameter: ParameterDefinition | null;
+  definition: UserFunction | null;
+  diagnostics: Diagnostic[];
 }
 
-function validateNode(node: MathNode): string | null {
-  let error: string | null = null;
-
-  node.traverse((child: MathNode, _path: string, parent: MathNode | null) => {
-    if (error) {
-      return;
-    }
-
-    if (BLOCKED_NODE_TYPES.has(child.type)) {
-      error = `Unsupported expression feature: ${child.type}`;
-      return;
-    }
+function preparedSurface(normalizedInput: string, patch: Partial<PreparedSurfaceMath> = {}): PreparedSurfaceMath {
+  return {
+    normalizedInput,
+    sourceKey: normalizedInput,
+    latex: null,
+    error: null,
+    evaluator: null,
+    batchEvaluator: null,
+    node: null,
+    parameter: null,
+    definition: null,
+    diagnostics: [],
+    ...patch
+  };
+}
 
-    if (child.type === 'FunctionNode') {
-      const fnNode = child as unknown as {
-        fn?: { type: string; name?: string };
-      };
-      const fnName = fnNode.fn?.name;
-      if (!fnName || !ALLOWED_FUNCTIONS.has(fnName)) {
-        error = `Unsupported function "${fnName ?? 'unknown'}".`;
-      }
-      return;
-    }
+function prepareSurface(
+  normalizedInput: string,
+  node: MathNode,
+  allowedSymbols: Set<string>,
+  context: MathContext
+): PreparedSurfaceMath {
+  const validationError = validateNode(node, withContextSymbols(allowedSymbols, context), context.functions);
 
-    if (child.type === 'SymbolNode') {
-      const name = (child as unknown as { name: string }).name;
-      const isFunctionName =
-        parent?.type === 'FunctionNode' &&
-        (parent as unknown as { fn?: MathNode }).fn === child;
+  if (validationError) {
+    return preparedSurface(normalizedInput, { error: validationError });
+  }
 
-      if (isFunctionName) {
-        return;
-      }
+  const expanded = expandUserFunctions(node, context);
+  const fast = compileFast(expanded, ['x', 'y'], evaluationScope(context));
 
-      if (!ALLOWED_SYMBOLS.has(name)) {
-        error = `Unknown symbol "${name}". Use x, y, pi, or e as symbols.`;
-      }
-    }
+  return preparedSurface(normalizedInput, {
+    evaluator: binaryEvaluator(fast),
+    batchEvaluator: fast.batch,
+    node: expanded
   });
-
-  return error;
 }
 
-function toFiniteNumber(value: unknown): number | null {
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value : null;
+function prepareSurfaceDefinition(
+  normalizedInput: string,
+  definition: UserFunction,
+  context: MathContext
+): PreparedSurfaceMath {
+  const signature = `${definition.name}(${definition.params.join(', ')})`;
+  const bodyTex = texOf(definition.body);
+  if (definition.params.every((param) => SURFACE_VARIABLES.has(param))) {
+    const surface = prepareSurface(normalizedInput, definition.body, ALLOWED_SYMBOLS, context);
+    return { ...surface, latex: surface.error ? null : `z = ${signature} = ${bodyTex}`, definition };
   }
 
-  if (value && typeof value === 'object' && 're' in value && 'im' in value) {
-    const maybeComplex = value as { re: number; im: number };
-    if (Number.isFinite(maybeComplex.re) && Math.abs(maybeComplex.im) < 1e-10) {
-      return maybeComplex.re;
-    }
+  const allowedSymbols = new Set(['pi', 'e', ...definition.params]);
+  const validationError = validateNode(definition.body, withContextSymbols(allowedSymbols, context), context.functions);
+  if (validationError) {
+    return preparedSurface(normalizedInput, { error: validationError, definition });
   }
 
-  return null;
+  expandUserFunctions(definition.body, context);
+  return preparedSurface(normalizedInput, { latex: `${signature} = ${bodyTex}`, definition });
 }
 
-export function prepareMath3D(rawInput: string): PreparedSurfaceMath {
-  const normalizedInput = normalizeInput(rawInput);
-
+function prepareNormalizedSurface(normalizedInput: string, context: MathContext): PreparedSurfaceMath {
   if (!normalizedInput) {
-    return {
-      normalizedInput,
-      latex: null,
-      error: null,
-      evaluator: null,
-      node: null
-    };
+    return preparedSurface(normalizedInput);
   }
 
-  if (normalizedInput.includes('=')) {
-    return {
-      normalizedInput,
-      latex: normalizedInput,
-      error: '3D mode expects z = f(x, y) entered as f(x, y) without an equals sign.',
-      evaluator: null,
-      node: null
-    };
+  const parameter = parseParameterDefinition(normalizedInput);
+  if (parameter) {
+    return preparedSurface(normalizedInput, {
+      latex: `${parameter.name} = ${parameter.value}`,
+      parameter
+    });
   }
 
   try {
-    const node = math.parse(normalizedInput);
-    const validationError = validateNode(node);
-
-    if (validationError) {
-      return {
-        normalizedInput,
-        latex: null,
-        error: validationError,
-        evaluator: null,
-        node: null
-      };
+    const definition = parseFunctionDefinition(normalizedInput);
+    if (definition) {
+      return prepareSurfaceDefinition(normalizedInput, definition, context);
     }
 
-    const compiled = node.compile();
-    const latex = `z = ${node.toTex({ parenthesis: 'auto' })}`;
-
-    const evaluator = (x: number, y: number): number | null => {
-      try {
-        const value = compiled.evaluate({ x, y });
-        return toFiniteNumber(value);
-      } catch {
-        return null;
-      }
-    };
-
-    return {
-      normalizedInput,
-      latex,
-      error: null,
-      evaluator,
-      node
-    };
+    if (splitTopLevel(normalizedInput, '=').length > 1) {
+      return preparedSurface(normalizedInput, {
+        latex: normalizedInput,
+        error: '3D mode expects z = f(x, y) entered as f(x, y) without an equals sign.'
+      });
+    }
+
+    const node = math.parse(normalizedInput);
+    const surface = prepareSurface(normalizedInput, node, ALLOWED_SYMBOLS, context);
+    return surface.error ? surface : { ...surface, latex: `z = ${texOf(node)}` };
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to parse expression.';
-    return {
-      normalizedInput,
-      latex: null,
-      error: message,
-      evaluator: null,
-      node: null
-    };
+    return preparedSurface(normalizedInput, { error: message });
   }
 }
 
+export function prepareMath3D(rawInput: string, context: MathContext = EMPTY_MATH_CONTEXT): PreparedSurfaceMath {
+  const normalizedInput = normalizeInput(rawInput);
+  const surface = {
+    ...prepareNormalizedSurface(normalizedInput, context),
+    sourceKey: sourceKey(normalizedInput, context)
+  };
+  if (!surface.error) {
+    return surface;
+  }
+
+  return {
+    ...surface,
+    diagnostics: [errorDiagnostic(rawInput, normalizedInput, surface.error, callableNames(context))]
+  };
+}
+
 export function parseSurfaceDomainBounds(
   domainMin: string,
   domainMax: string,
@@ -0,0 +1,100 @@
+import { evaluate, parse } from 'mathjs';
+import { describe, expect, it } from 'vitest';
+import { prepareMath } from './mathParser';
+import { prepareMath3D } from './mathParser3d';
+import { conditionIntervals, extractPieces, pieceEndpoints, rewritePiecewiseSyntax } from './piecewise';
+import { curveSource, sampleCurveGeometry } from './plotSampling';
+
+function valueAt(input: string, x: number): number {
+  return evaluate(rewritePiecewiseSyntax(input), { x }) as number;
+}
+
+describe('rewritePiecewiseSyntax', () => {
+  it.each([
+    ['{x < 0: -x, x >= 0: x^2}', -3, 3],
+    ['{x < 0: -x, x >= 0: x^2}', 2, 4],
+    ['piecewise(x < 0, -x, x^2)', 3, 9],
+    ['{x < 0: {x < -1: 5, 6}, 7}', -2, 5],
+    ['{x < 0: {x < -1: 5, 6}, 7}', -0.5, 6],
+    ['2 * {x > 1: x, 0} + 1', 3, 7]
+  ])('evaluates %s at x = %d', (input, x, expected) => {
+    expect(valueAt(input, x)).toBe(expected);
+  });
+
+  it('is undefined where no condition holds and there is no fallback', () => {
+    expect(valueAt('{x < 0: -x, x > 1: x}', 0.5)).toBeNaN();
+  });
+
+  it('leaves braces without conditions alone', () => {
+    expect(rewritePiecewiseSyntax('{a, b}')).toBe('{a, b}');
+  });
+});
+
+describe('conditionIntervals', () => {
+  const intervalsOf = (condition: string) => conditionIntervals(parse(condition), 'x', { a: 2 });
+
+  it('reads chained and combined comparisons', () => {
+    expect(intervalsOf('0 <= x < a')).toEqual([{ min: 0, max: 2, minClosed: true, maxClosed: false }]);
+    expect(intervalsOf('x < -1 or x >= 1')).toEqual([
+      { min: -Infinity, max: -1, minClosed: false, maxClosed: false },
+      { min: 1, max: Infinity, minClosed: true, maxClosed: false }
+    ]);
+    expect(intervalsOf('not (x > 3)')).toEqual([{ min: -Infinity, max: 3, minClosed: false, maxClosed: true }]);
+  });
+
+  it('gives up on conditions it cannot bound', () => {
+    expect(intervalsOf('sin(x) > 0')).toBeNull();
+  });
+});
+
+describe('extractPieces', () => {
+  const pieces = extractPieces(parse(rewritePiecewiseSyntax('{x < 0: -x, x <= 1: 2, x^2}')), {}) ?? [];
+
+  it('evaluates each piece only on its own condition', () => {
+    expect(pieces).toHaveLength(3);
+    expect(pieces.map((piece) => piece.evaluator(-1))).toEqual([1, null, null]);
+    expect(pieces.map((piece) => piece.evaluator(0.5))).toEqual([null, 2, null]);
+    expect(pieces.map((piece) => piece.evaluator(3))).toEqual([null, null, 9]);
+  });
+
+  it('places open and closed endpoints where pieces meet', () => {
+    expect(pieceEndpoints(pieces[0], -5, 5)).toEqual([{ x: 0, y: -0, closed: false }]);
+    expect(pieceEndpoints(pieces[1], -5, 5)).toEqual([
+      { x: 0, y: 2, closed: true },
+      { x: 1, y: 2, closed: true }
+    ]);
+    expect(pieceEndpoints(pieces[2], -5, 5)).toEqual([{ x: 1, y: 1, closed: false }]);
+  });
+});
+
+describe('piecewise rows', () => {
+  it('leaves a gap at a jump', () => {
+    const rawInput = 'y = {x < 1: 0, 3}';
+    const source = curveSource({
+      id: 'jump',
+      rawInput,
+      samples: 400,
+      domainMin: '',
+      domainMax: '',
+      tMin: '',
+      tMax: '',
+      endpointDots: true
+    });
+    const view = { xMin: -4, xMax: 4, yMin: -4, yMax: 4 };
+    const geometry = sampleCurveGeometry({ ...prepareMath(rawInput), ...source }, view);
+    geometry?.segments.forEach((segment) => {
+      const ys = new Set(segment.map((point) => point.y));
+      expect(ys.size).toBe(1);
+    });
+    expect(geometry?.endpoints).toEqual([
+      { x: 1, y: 0, closed: false },
+      { x: 1, y: 3, closed: true }
+    ]);
+  });
+
+  it('works in 3D surfaces', () => {
+    const evaluator = prepareMath3D('{x < 0: y, x}').evaluator;
+    expect(evaluator?.(-1, 4)).toBe(4);
+    expect(evaluator?.(2, 4)).toBe(2);
+  });
+});
@@ -0,0 +1,419 @@
+import type { MathNode } from 'mathjs';
+import type { Interval, PiecewisePiece } from '../types';
+
+const COMPARISON_FUNCTIONS = new Set(['smaller', 'smallerEq', 'larger', 'largerEq']);
+
+interface ConditionalLike {
+  condition: MathNode;
+  trueExpr: MathNode;
+  falseExpr: MathNode;
+}
+
+function findClosing(input: string, openIndex: number): number {
+  const open = input[openIndex];
+  const close = open === '{' ? '}' : ')';
+  let depth = 0;
+
+  for (let i = openIndex; i < input.length; i += 1) {
+    if (input[i] === open) {
+      depth += 1;
+    } else if (input[i] === close) {
+      depth -= 1;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+function splitTopLevelOnce(input: string, separator: string): [string, string] | null {
+  let depth = 0;
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (char === '(' || char === '[' || char === '{') {
+      depth += 1;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth -= 1;
+    } else if (char === separator && depth === 0) {
+      return [input.slice(0, i).trim(), input.slice(i + 1).trim()];
+    }
+  }
+  return null;
+}
+
+function splitArguments(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (char === '(' || char === '[' || char === '{') {
+      depth += 1;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth -= 1;
+    } else if (char === ',' && depth === 0) {
+      parts.push(input.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  parts.push(input.slice(start).trim());
+  return parts.filter((part) => part.length > 0);
+}
+
+function buildConditional(pieces: Array<{ condition: string | null; value: string }>): string {
+  return pieces.reduceRight((fallback, piece) => {
+    if (piece.condition === null) {
+      return `(${piece.value})`;
+    }
+    return `((${piece.condition}) ? (${piece.value}) : ${fallback})`;
+  }, 'NaN');
+}
+
+function bracePieces(content: string): Array<{ condition: string | null; value: string }> | null {
+  const parts = splitArguments(content);
+  const pieces = parts.map((part) => {
+    const split = splitTopLevelOnce(part, ':');
+    return split ? { condition: split[0], value: split[1] } : { condition: null, value: part };
+  });
+
+  if (!pieces.some((piece) => piece.condition !== null)) {
+    return null;
+  }
+
+  return pieces;
+}
+
+function functionPieces(content: string): Array<{ condition: string | null; value: string }> {
+  const args = splitArguments(content);
+  const pieces: Array<{ condition: string | null; value: string }> = [];
+
+  for (let i = 0; i + 1 < args.length; i += 2) {
+    pieces.push({ condition: args[i], value: args[i + 1] });
+  }
+  if (args.length % 2 === 1) {
+    pieces.push({ condition: null, value: args[args.length - 1] });
+  }
+
+  return pieces;
+}
+
+export function rewritePiecewiseSyntax(input: string): string {
+  let output = '';
+  let i = 0;
+
+  while (i < input.length) {
+    const isPiecewiseCall = /^piecewise\s*\(/.test(input.slice(i)) && !/[A-Za-z0-9_]/.test(input[i - 1] ?? '');
+
+    if (input[i] === '{' || isPiecewiseCall) {
+      const openIndex = input[i] === '{' ? i : input.indexOf('(', i);
+      const closeIndex = findClosing(input, openIndex);
+      if (closeIndex < 0) {
+        return output + input.slice(i);
+      }
+
+      const content = rewritePiecewiseSyntax(input.slice(openIndex + 1, closeIndex));
+      const pieces = isPiecewiseCall ? functionPieces(content) : bracePieces(content);
+      output += pieces ? `(${buildConditional(pieces)})` : `{${content}}`;
+      i = closeIndex + 1;
+      continue;
+    }
+
+    output += input[i];
+    i += 1;
+  }
+
+  return output;
+}
+
+function unwrap(node: MathNode): MathNode {
+  let current = node;
+  while (current.type === 'ParenthesisNode') {
+    current = (current as unknown as { content: MathNode }).content;
+  }
+  return current;
+}
+
+function isSymbol(node: MathNode, name: string): boolean {
+  return node.type === 'SymbolNode' && (node as unknown as { name: string }).name === name;
+}
+
+function isUndefinedConstant(node: MathNode): boolean {
+  const value = (node as unknown as { value?: unknown }).value;
+  return node.type === 'ConstantNode' && typeof value === 'number' && Number.isNaN(value);
+}
+
+function usesSymbol(node: MathNode, name: string): boolean {
+  return node.filter((child: MathNode) => isSymbol(child, name)).length > 0;
+}
+
+export function conditionalChain(node: MathNode): Array<{ condition: MathNode | null; value: MathNode }> | null {
+  let current = unwrap(node);
+  if (current.type !== 'ConditionalNode') {
+    return null;
+  }
+
+  const chain: Array<{ condition: MathNode | null; value: MathNode }> = [];
+  while (current.type === 'ConditionalNode') {
+    const conditional = current as unknown as ConditionalLike;
+    chain.push({ condition: unwrap(conditional.condition), value: unwrap(conditional.trueExpr) });
+    current = unwrap(conditional.falseExpr);
+  }
+
+  if (!isUndefinedConstant(current)) {
+    chain.push({ condition: null, value: current });
+  }
+
+  return chain;
+}
+
+export function casesTex(node: MathNode, options: object): string | undefined {
+  const chain = conditionalChain(node);
+  if (!chain) {
+    return undefined;
+  }
+
+  const rows = chain.map((piece) => {
+    const value = piece.value.toTex(options);
+    return piece.condition ? `${value} & ${piece.condition.toTex(options)}` : `${value} & \\text{otherwise}`;
+  });
+
+  return `\\begin{cases} ${rows.join(' \\\\ ')} \\end{cases}`;
+}
+
+const FULL_LINE: Interval[] = [{ min: -Infinity, max: Infinity, minClosed: false, maxClosed: false }];
+
+function complement(set: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  let cursor = -Infinity;
+  let cursorClosed = false;
+
+  set.forEach((interval) => {
+    result.push({ min: cursor, max: interval.min, minClosed: cursorClosed, maxClosed: !interval.minClosed });
+    cursor = interval.max;
+    cursorClosed = !interval.maxClosed;
+  });
+
+  result.push({ min: cursor, max: Infinity, minClosed: cursorClosed, maxClosed: false });
+
+  return result.filter(
+    (interval) =>
+      interval.min < interval.max || (interval.minClosed && interval.maxClosed && Number.isFinite(interval.min))
+  );
+}
+
+function intersect(a: Interval[], b: Interval[]): Interval[] {
+  const result: Interval[] = [];
+
+  a.forEach((left) => {
+    b.forEach((right) => {
+      const min = Math.max(left.min, right.min);
+      const max = Math.min(left.max, right.max);
+      const minClosed = (left.min !== min || left.minClosed) && (right.min !== min || right.minClosed);
+      const maxClosed = (left.max !== max || left.maxClosed) && (right.max !== max || right.maxClosed);
+
+      if (min < max || (min === max && minClosed && maxClosed)) {
+        result.push({ min, max, minClosed, maxClosed });
+      }
+    });
+  });
+
+  return result.sort((p, q) => p.min - q.min);
+}
+
+function union(a: Interval[], b: Interval[]): Interval[] {
+  return complement(intersect(complement(a), complement(b)));
+}
+
+const FLIPPED_COMPARISON: Record<string, string> = {
+  smaller: 'larger',
+  smallerEq: 'largerEq',
+  larger: 'smaller',
+  largerEq: 'smallerEq'
+};
+
+function comparisonInterval(fn: string, variableOnLeft: boolean, value: number): Interval[] {
+  const relation = variableOnLeft ? fn : FLIPPED_COMPARISON[fn];
+
+  switch (relation) {
+    case 'smaller':
+      return [{ min: -Infinity, max: value, minClosed: false, maxClosed: false }];
+    case 'smallerEq':
+      return [{ min: -Infinity, max: value, minClosed: false, maxClosed: true }];
+    case 'larger':
+      return [{ min: value, max: Infinity, minClosed: false, maxClosed: false }];
+    default:
+      return [{ min: value, max: Infinity, minClosed: true, maxClosed: false }];
+  }
+}
+
+function constantValue(node: MathNode, variable: string, scope: Record<string, unknown>): number | null {
+  if (usesSymbol(node, variable)) {
+    return null;
+  }
+
+  try {
+    const value = node.compile().evaluate({ ...scope });
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function pairInterval(
+  fn: string,
+  left: MathNode,
+  right: MathNode,
+  variable: string,
+  scope: Record<string, unknown>
+): Interval[] | null {
+  const leftInner = unwrap(left);
+  const rightInner = unwrap(right);
+  if (isSymbol(leftInner, variable)) {
+    const value = constantValue(rightInner, variable, scope);
+    return value === null ? null : comparisonInterval(fn, true, value);
+  }
+
+  if (isSymbol(rightInner, variable)) {
+    const value = constantValue(leftInner, variable, scope);
+    return value === null ? null : comparisonInterval(fn, false, value);
+  }
+
+  return null;
+}
+
+export function conditionIntervals(
+  condition: MathNode,
+  variable: string,
+  scope: Record<string, unknown>
+): Interval[] | null {
+  const node = unwrap(condition);
+
+  if (node.type === 'RelationalNode') {
+    const relational = node as unknown as { conditionals: string[]; params: MathNode[] };
+    let result: Interval[] = FULL_LINE;
+
+    for (let i = 0; i < relational.conditionals.length; i += 1) {
+      const fn = relational.conditionals[i];
+      if (!COMPARISON_FUNCTIONS.has(fn)) {
+        return null;
+      }
+      const pair = pairInterval(fn, relational.params[i], relational.params[i + 1], variable, scope);
+      if (!pair) {
+        return null;
+      }
+      result = intersect(result, pair);
+    }
+
+    return result;
+  }
+
+  if (node.type !== 'OperatorNode') {
+    return null;
+  }
+
+  const operator = node as unknown as { fn: string; args: MathNode[] };
+
+  if (COMPARISON_FUNCTIONS.has(operator.fn)) {
+    return pairInterval(operator.fn, operator.args[0], operator.args[1], variable, scope);
+  }
+
+  if (operator.fn === 'not') {
+    const inner = conditionIntervals(operator.args[0], variable, scope);
+    return inner ? complement(inner) : null;
+  }
+
+  if (operator.fn === 'and' || operator.fn === 'or') {
+    const left = conditionIntervals(operator.args[0], variable, scope);
+    const right = conditionIntervals(operator.args[1], variable, scope);
+    if (!left || !right) {
+      return null;
+    }
+    return operator.fn === 'and' ? intersect(left, right) : union(left, right);
+  }
+
+  return null;
+}
+
+function toFinite(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+export function extractPieces(node: MathNode, scope: Record<string, unknown>): PiecewisePiece[] | null {
+  const chain = conditionalChain(node);
+  if (!chain) {
+    return null;
+  }
+
+  const conditions = chain.map((piece) => piece.condition?.compile() ?? null);
+  const evaluationScope: Record<string, unknown> = { ...scope, x: 0 };
+  let covered: Interval[] | null = [];
+
+  return chain.map((piece, index) => {
+    const compiledValue = piece.value.compile();
+    const previous = conditions.slice(0, index);
+    const own = conditions[index];
+
+    const valueEvaluator = (x: number): number | null => {
+      try {
+        evaluationScope.x = x;
+        return toFinite(compiledValue.evaluate(evaluationScope));
+      } catch {
+        return null;
+      }
+    };
+
+    const evaluator = (x: number): number | null => {
+      try {
+        evaluationScope.x = x;
+        if (previous.some((condition) => condition?.evaluate(evaluationScope))) {
+          return null;
+        }
+        if (own && !own.evaluate(evaluationScope)) {
+          return null;
+        }
+        return valueEvaluator(x);
+      } catch {
+        return null;
+      }
+    };
+
+    const ownIntervals = piece.condition ? conditionIntervals(piece.condition, 'x', scope) : FULL_LINE;
+    const intervals = ownIntervals && covered ? intersect(ownIntervals, complement(covered)) : null;
+    covered = ownIntervals && covered ? union(covered, ownIntervals) : null;
+
+    return { condition: piece.condition, value: piece.value, evaluator, valueEvaluator, intervals };
+  });
+}
+
+export interface PieceEndpoint {
+  x: number;
+  y: number;
+  closed: boolean;
+}
+
+export function pieceEndpoints(piece: PiecewisePiece, xMin: number, xMax: number): PieceEndpoint[] {
+  const endpoints: PieceEndpoint[] = [];
+
+  piece.intervals?.forEach((interval) => {
+    const candidates = [
+      { x: interval.min, closed: interval.minClosed },
+      { x: interval.max, closed: interval.maxClosed }
+    ];
+
+    candidates.forEach(({ x, closed }) => {
+      if (!Number.isFinite(x) || x < xMin || x > xMax || endpoints.some((endpoint) => endpoint.x === x)) {
+        return;
+      }
+      const y = piece.valueEvaluator(x);
+      if (y !== null) {
+        endpoints.push({ x, y, closed });
+      }
+    });
+  });
+
+  return endpoints;
+}
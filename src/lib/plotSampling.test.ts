@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { collectMathContext, prepareMath } from './mathParser';
+import { curveSource, sampleCurveGeometry, type CurveSource } from './plotSampling';
+
+const VIEW = { xMin: -5, xMax: 5, yMin: -5, yMax: 5 };
+
+function row(rawInput: string): CurveSource {
+  return curveSource({
+    id: rawInput,
+    rawInput,
+    samples: 400,
+    domainMin: '',
+    domainMax: '',
+    tMin: '',
+    tMax: '',
+    endpointDots: false
+  });
+}
+
+function counted(rawInput: string, rawInputs: string[] = []) {
+  const prepared = prepareMath(rawInput, collectMathContext([rawInput, ...rawInputs]));
+  const evaluator = prepared.evaluator;
+  const counter = { calls: 0 };
+  const expr = {
+    ...prepared,
+    ...row(rawInput),
+    batchEvaluator: null,
+    evaluator: (x: number) => {
+      counter.calls += 1;
+      return evaluator ? evaluator(x) : null;
+    }
+  };
+  return { expr, counter };
+}
+
+describe('sampleCurveGeometry tile cache', () => {
+  it('reuses explicit curve tiles across a vertical pan', () => {
+    const { expr, counter } = counted('y = x^3 - 2*x + 17/13');
+    const first = sampleCurveGeometry(expr, VIEW);
+    expect(counter.calls).toBeGreaterThan(0);
+
+    counter.calls = 0;
+    const panned = sampleCurveGeometry(expr, { ...VIEW, yMin: 40, yMax: 50 });
+    expect(counter.calls).toBe(0);
+    expect(panned?.segments).toEqual(first?.segments);
+  });
+
+  it('reuses tiles when a row is prepared again after an unrelated edit', () => {
+    const { expr } = counted('y = sin(x) + 19/17', ['a = 1']);
+    sampleCurveGeometry(expr, VIEW);
+
+    const { expr: again, counter } = counted('y = sin(x) + 19/17', ['a = 2']);
+    sampleCurveGeometry(again, VIEW);
+    expect(counter.calls).toBe(0);
+  });
+
+  it('resamples when a parameter the row uses changes', () => {
+    const { expr } = counted('y = a*x + 23/19', ['a = 1']);
+    sampleCurveGeometry(expr, VIEW);
+
+    const { expr: again, counter } = counted('y = a*x + 23/19', ['a = 2']);
+    sampleCurveGeometry(again, VIEW);
+    expect(counter.calls).toBeGreaterThan(0);
+  });
+});
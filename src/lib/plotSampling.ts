@@ -0,0 +1,402 @@
+import type {
+  AngleMode,
+  BatchEvaluator,
+  DataColumn,
+  Expression,
+  Expression3D,
+  Point,
+  Viewport,
+  Viewport3D
+} from '../types';
+import { gridInputs } from './fastEvaluator';
+import {
+  mirroredViewport,
+  parseCurveDomain,
+  parseDomainBounds,
+  sampleExpression,
+  sampleImplicitContours,
+  sampleInequalityRegion,
+  sampleParametric,
+  type PreparedMath,
+  type RegionCell
+} from './mathParser';
+import { parseSurfaceDomainBounds, type PreparedSurfaceMath } from './mathParser3d';
+import { pieceEndpoints, type PieceEndpoint } from './piecewise';
+
+export interface MathSources {
+  version: number;
+  rawInputs: string[];
+  columns: DataColumn[];
+  angleMode: AngleMode;
+}
+
+let nextSourcesVersion = 0;
+
+// Workers rebuild their math context only when the version changes, so pans and zooms reuse it.
+export function createMathSources(rawInputs: string[], columns: DataColumn[], angleMode: AngleMode): MathSources {
+  nextSourcesVersion += 1;
+  return { version: nextSourcesVersion, rawInputs, columns, angleMode };
+}
+
+export type CurveSource = Pick<
+  Expression,
+  'id' | 'rawInput' | 'samples' | 'domainMin' | 'domainMax' | 'tMin' | 'tMax' | 'endpointDots'
+>;
+
+export type SurfaceSource = Pick<
+  Expression3D,
+  'id' | 'rawInput' | 'samples' | 'domainXMin' | 'domainXMax' | 'domainYMin' | 'domainYMax'
+>;
+
+export type SurfaceBounds = Pick<Viewport3D, 'xMin' | 'xMax' | 'yMin' | 'yMax' | 'zMin' | 'zMax'>;
+
+export interface CurveGeometry {
+  segments: Point[][];
+  cells: RegionCell[];
+  endpoints: PieceEndpoint[];
+}
+
+export interface SurfaceGrid {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+  xCount: number;
+  yCount: number;
+  z: number[];
+}
+
+export function curveSource(expr: CurveSource): CurveSource {
+  const { id, rawInput, samples, domainMin, domainMax, tMin, tMax, endpointDots } = expr;
+  return { id, rawInput, samples, domainMin, domainMax, tMin, tMax, endpointDots };
+}
+
+export function surfaceSource(expr: SurfaceSource): SurfaceSource {
+  const { id, rawInput, samples, domainXMin, domainXMax, domainYMin, domainYMax } = expr;
+  return { id, rawInput, samples, domainXMin, domainXMax, domainYMin, domainYMax };
+}
+
+interface TileRange {
+  size: number;
+  first: number;
+  last: number;
+}
+
+interface Chain {
+  points: Point[];
+  alive: boolean;
+}
+
+interface ChainEnd {
+  chain: Chain;
+  atEnd: boolean;
+}
+
+const CURVE_TILES_PER_VIEW = 4;
+const BAND_TILES_PER_VIEW = 2;
+const CONTOUR_TILES_PER_VIEW = 2;
+const REGION_TILE_RESOLUTION = 80;
+const TILE_CACHE_LIMIT = 1024;
+const UNBOUNDED: Viewport = { xMin: -Infinity, xMax: Infinity, yMin: -Infinity, yMax: Infinity };
+
+// Tiles are keyed on the row's source key rather than its evaluator, so re-preparing an unchanged row reuses them.
+const tileCache = new Map<string, unknown>();
+
+function cachedTile<T>(owner: string, key: string, sample: () => T): T {
+  const cacheKey = `${owner}\n${key}`;
+  if (tileCache.has(cacheKey)) {
+    const hit = tileCache.get(cacheKey) as T;
+    tileCache.delete(cacheKey);
+    tileCache.set(cacheKey, hit);
+    return hit;
+  }
+
+  const value = sample();
+  tileCache.set(cacheKey, value);
+  const oldest = tileCache.keys().next();
+  if (tileCache.size > TILE_CACHE_LIMIT && !oldest.done) {
+    tileCache.delete(oldest.value);
+  }
+  return value;
+}
+
+// Tile sizes snap to quarter octaves so a pan keeps the same tiling and only newly exposed tiles are sampled.
+function tileRange(min: number, max: number, perView: number): TileRange {
+  const size = 2 ** (Math.round(Math.log2((max - min) / perView) * 4) / 4);
+  return { size, first: Math.floor(min / size), last: Math.ceil(max / size) - 1 };
+}
+
+function joinPolylines(polylines: Point[][], tolerance: number): Point[][] {
+  const chains: Chain[] = polylines.map((points) => ({ points: [...points], alive: true }));
+  const ends = new Map<string, ChainEnd[]>();
+  const pointOf = ({ chain, atEnd }: ChainEnd): Point =>
+    atEnd ? chain.points[chain.points.length - 1] : chain.points[0];
+  const cellOf = (point: Point): [number, number] => [
+    Math.round(point.x / tolerance),
+    Math.round(point.y / tolerance)
+  ];
+
+  const register = (end: ChainEnd) => {
+    const key = cellOf(pointOf(end)).join(',');
+    ends.set(key, [...(ends.get(key) ?? []), end]);
+  };
+  const unregister = (chain: Chain, atEnd: boolean) => {
+    const key = cellOf(pointOf({ chain, atEnd })).join(',');
+    ends.set(
+      key,
+      (ends.get(key) ?? []).filter((end) => end.chain !== chain || end.atEnd !== atEnd)
+    );
+  };
+  const findMatch = (chain: Chain, atEnd: boolean): ChainEnd | null => {
+    const point = pointOf({ chain, atEnd });
+    const [cx, cy] = cellOf(point);
+    for (let dx = -1; dx <= 1; dx += 1) {
+      for (let dy = -1; dy <= 1; dy += 1) {
+        const match = (ends.get(`${cx + dx},${cy + dy}`) ?? []).find((end) => {
+          const other = pointOf(end);
+          return end.chain !== chain && Math.hypot(other.x - point.x, other.y - point.y) <= tolerance;
+        });
+        if (match) {
+          return match;
+        }
+      }
+    }
+    return null;
+  };
+
+  chains.forEach((chain) => {
+    register({ chain, atEnd: false });
+    register({ chain, atEnd: true });
+  });
+
+  chains.forEach((chain) => {
+    [true, false].forEach((atEnd) => {
+      let match = chain.alive ? findMatch(chain, atEnd) : null;
+      while (match) {
+        const other = match.chain;
+        unregister(chain, atEnd);
+        unregister(other, false);
+        unregister(other, true);
+        const oriented = match.atEnd ? [...other.points].reverse() : other.points;
+        chain.points = atEnd ? [...chain.points, ...oriented] : [...oriented.reverse(), ...chain.points];
+        other.alive = false;
+        register({ chain, atEnd });
+        match = findMatch(chain, atEnd);
+      }
+    });
+  });
+
+  return chains
+    .filter((chain) => chain.alive)
+    .map((chain) => {
+      const first = chain.points[0];
+      const last = chain.points[chain.points.length - 1];
+      const closes = chain.points.length > 2 && Math.hypot(first.x - last.x, first.y - last.y) <= tolerance;
+      return closes && (first.x !== last.x || first.y !== last.y) ? [...chain.points, first] : chain.points;
+    });
+}
+
+// Curve tiles span every y, so a vertical pan reuses them; only the snapped y scale is part of the key.
+function tiledCurve(
+  owner: string,
+  evaluator: (x: number) => number | null,
+  batch: BatchEvaluator | null,
+  domain: { xMin: number; xMax: number },
+  samples: number,
+  viewport: Viewport
+): Point[][] {
+  const xTiles = tileRange(viewport.xMin, viewport.xMax, CURVE_TILES_PER_VIEW);
+  const yScale = tileRange(viewport.yMin, viewport.yMax, BAND_TILES_PER_VIEW).size * BAND_TILES_PER_VIEW;
+  const tileSamples = Math.round((samples * xTiles.size) / (viewport.xMax - viewport.xMin));
+  const pieces: Point[][] = [];
+
+  for (let index = xTiles.first; index <= xTiles.last; index += 1) {
+    const from = Math.max(domain.xMin, index * xTiles.size);
+    const to = Math.min(domain.xMax, (index + 1) * xTiles.size);
+    if (to <= from) {
+      continue;
+    }
+
+    const key = ['curve', from, to, tileSamples, yScale].join('|');
+    const tileViewport = { ...UNBOUNDED, xMin: from, xMax: to };
+    const tile = cachedTile(owner, key, () =>
+      sampleExpression(evaluator, from, to, tileSamples, tileViewport, batch, yScale)
+    );
+    pieces.push(...tile.segments);
+  }
+
+  return joinPolylines(pieces, xTiles.size * 1e-9);
+}
+
+function tiledArea<T>(
+  owner: string,
+  kind: string | ((tile: Viewport) => string),
+  viewport: Viewport,
+  sample: (tile: Viewport) => T[]
+): { items: T[]; tileSize: number } {
+  const xTiles = tileRange(viewport.xMin, viewport.xMax, CONTOUR_TILES_PER_VIEW);
+  const yTiles = tileRange(viewport.yMin, viewport.yMax, CONTOUR_TILES_PER_VIEW);
+  const items: T[] = [];
+
+  for (let iy = yTiles.first; iy <= yTiles.last; iy += 1) {
+    for (let ix = xTiles.first; ix <= xTiles.last; ix += 1) {
+      const tile = {
+        xMin: ix * xTiles.size,
+        xMax: (ix + 1) * xTiles.size,
+        yMin: iy * yTiles.size,
+        yMax: (iy + 1) * yTiles.size
+      };
+      const key = [typeof kind === 'string' ? kind : kind(tile), tile.xMin, tile.xMax, tile.yMin, tile.yMax].join('|');
+      items.push(...cachedTile(owner, key, () => sample(tile)));
+    }
+  }
+
+  return { items, tileSize: Math.min(xTiles.size, yTiles.size) };
+}
+
+function tiledContours(
+  owner: string,
+  evaluator: (x: number, y: number) => number | null,
+  batch: BatchEvaluator | null,
+  samples: number,
+  viewport: Viewport
+): Point[][] {
+  // The per-tile sample count follows the zoom, so it is part of the key alongside the tile bounds.
+  const tileSamples = (tile: Viewport) =>
+    Math.round(
+      (samples * (tile.xMax - tile.xMin) * (tile.yMax - tile.yMin)) /
+        ((viewport.xMax - viewport.xMin) * (viewport.yMax - viewport.yMin))
+    );
+  const { items, tileSize } = tiledArea(
+    owner,
+    (tile) => `contour|${tileSamples(tile)}`,
+    viewport,
+    (tile) => sampleImplicitContours(evaluator, tile, tileSamples(tile), batch)
+  );
+  return joinPolylines(items, tileSize / 128);
+}
+
+function curveGeometry(patch: Partial<CurveGeometry>): CurveGeometry {
+  return { segments: [], cells: [], endpoints: [], ...patch };
+}
+
+export function sampleCurveGeometry(expr: PreparedMath & CurveSource, viewport: Viewport): CurveGeometry | null {
+  if (expr.error) {
+    return null;
+  }
+
+  if (expr.mode === 'inequality' && expr.inequality) {
+    const { relation, boundary } = expr.inequality;
+    const evaluator = expr.implicitEvaluator;
+
+    if (boundary === 'implicit' && evaluator) {
+      return curveGeometry({
+        cells: tiledArea(expr.sourceKey, `region|${relation}`, viewport, (tile) =>
+          sampleInequalityRegion(evaluator, relation, tile, REGION_TILE_RESOLUTION, expr.batchEvaluator)
+        ).items,
+        segments: tiledContours(expr.sourceKey, evaluator, expr.batchEvaluator, expr.samples, viewport)
+      });
+    }
+
+    if (!expr.evaluator) {
+      return null;
+    }
+
+    const domain = parseDomainBounds(expr.domainMin, expr.domainMax, UNBOUNDED);
+    if (Math.min(domain.xMax, viewport.xMax) <= Math.max(domain.xMin, viewport.xMin)) {
+      return null;
+    }
+
+    return curveGeometry({
+      segments: tiledCurve(expr.sourceKey, expr.evaluator, expr.batchEvaluator, domain, expr.samples, viewport)
+    });
+  }
+
+  if (expr.mode === 'implicit' && expr.implicitEvaluator) {
+    return curveGeometry({
+      segments: tiledContours(expr.sourceKey, expr.implicitEvaluator, expr.batchEvaluator, expr.samples, viewport)
+    });
+  }
+
+  if ((expr.mode === 'parametric' || expr.mode === 'polar') && expr.curveEvaluator) {
+    const { tMin, tMax } = parseCurveDomain(expr.tMin, expr.tMax, expr.fullTurn);
+    return curveGeometry({
+      segments: sampleParametric(expr.curveEvaluator, tMin, tMax, expr.samples, viewport, expr.curveBatchEvaluator)
+    });
+  }
+
+  if (!expr.evaluator) {
+    return null;
+  }
+
+  const domain = parseDomainBounds(expr.domainMin, expr.domainMax, UNBOUNDED);
+
+  if (expr.mode === 'mirrored') {
+    if (Math.min(domain.xMax, viewport.yMax) <= Math.max(domain.xMin, viewport.yMin)) {
+      return null;
+    }
+    const segments = tiledCurve(
+      expr.sourceKey,
+      expr.evaluator,
+      expr.batchEvaluator,
+      domain,
+      expr.samples,
+      mirroredViewport(viewport)
+    );
+    return curveGeometry({ segments: segments.map((segment) => segment.map((point) => ({ x: point.y, y: point.x }))) });
+  }
+
+  const xMin = Math.max(domain.xMin, viewport.xMin);
+  const xMax = Math.min(domain.xMax, viewport.xMax);
+  if (xMax <= xMin) {
+    return null;
+  }
+
+  const segments = expr.pieces
+    ? expr.pieces.flatMap((piece, index) =>
+        tiledCurve(`${expr.sourceKey}\npiece ${index}`, piece.evaluator, null, domain, expr.samples, viewport)
+      )
+    : tiledCurve(expr.sourceKey, expr.evaluator, expr.batchEvaluator, domain, expr.samples, viewport);
+  return curveGeometry({
+    segments,
+    endpoints:
+      expr.pieces && expr.endpointDots ? expr.pieces.flatMap((piece) => pieceEndpoints(piece, xMin, xMax)) : []
+  });
+}
+
+export function sampleSurfaceGrid(
+  expr: PreparedSurfaceMath & SurfaceSource,
+  viewport: SurfaceBounds
+): SurfaceGrid | null {
+  if (expr.error || !expr.evaluator) {
+    return null;
+  }
+
+  const xDomain = parseSurfaceDomainBounds(expr.domainXMin, expr.domainXMax, viewport.xMin, viewport.xMax);
+  const yDomain = parseSurfaceDomainBounds(expr.domainYMin, expr.domainYMax, viewport.yMin, viewport.yMax);
+
+  const xMin = Math.max(xDomain.min, viewport.xMin);
+  const xMax = Math.min(xDomain.max, viewport.xMax);
+  const yMin = Math.max(yDomain.min, viewport.yMin);
+  const yMax = Math.min(yDomain.max, viewport.yMax);
+
+  if (xMax <= xMin || yMax <= yMin) {
+    return null;
+  }
+
+  const evaluator = expr.evaluator;
+  const batch = expr.batchEvaluator;
+  const key = ['surface', xMin, xMax, yMin, yMax, viewport.zMin, viewport.zMax, expr.samples].join('|');
+  return cachedTile(expr.sourceKey, key, () => {
+    const resolution = Math.max(12, Math.min(80, Math.round(Math.sqrt(expr.samples) * 1.35)));
+    const xStep = (xMax - xMin) / resolution;
+    const yStep = (yMax - yMin) / resolution;
+    const inputs = gridInputs(xMin, xStep, resolution + 1, yMin, yStep, resolution + 1);
+    const values = batch ? batch(inputs) : inputs[0].map((x, index) => evaluator(x, inputs[1][index]) ?? Number.NaN);
+    const z = Array.from(values, (value) =>
+      Math.abs(value) <= 1e7 && value >= viewport.zMin && value <= viewport.zMax ? value : Number.NaN
+    );
+
+    return { xMin, xMax, yMin, yMax, xCount: resolution, yCount: resolution, z };
+  });
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { PointOfInterest } from '../types';
+import { prepareMath } from './mathParser';
+import { curveSource } from './plotSampling';
+import { findPointsOfInterest, hasPointsOfInterest } from './pointsOfInterest';
+
+const VIEW = { xMin: -5, xMax: 5, yMin: -5, yMax: 5 };
+
+function pointsOf(rawInput: string, domainMin = '', domainMax = ''): PointOfInterest[] {
+  const source = curveSource({
+    id: rawInput,
+    rawInput,
+    samples: 400,
+    domainMin,
+    domainMax,
+    tMin: '',
+    tMax: '',
+    endpointDots: false
+  });
+  return findPointsOfInterest({ ...prepareMath(rawInput), ...source }, VIEW);
+}
+
+function expectPoints(points: PointOfInterest[], expected: PointOfInterest[]) {
+  expect(points.map((point) => point.kind)).toEqual(expected.map((point) => point.kind));
+  points.forEach((point, index) => {
+    expect(point.x).toBeCloseTo(expected[index].x, 4);
+    expect(point.y).toBeCloseTo(expected[index].y, 4);
+  });
+}
+
+describe('findPointsOfInterest', () => {
+  it('finds the zeros, extremum and inflection of a cubic', () => {
+    const r = Math.sqrt(3);
+    expectPoints(pointsOf('y = x^3 - 3*x'), [
+      { x: -r, y: 0, kind: 'zero' },
+      { x: -1, y: 2, kind: 'maximum' },
+      { x: 0, y: 0, kind: 'zero' },
+      { x: 0, y: 0, kind: 'inflection' },
+      { x: 1, y: -2, kind: 'minimum' },
+      { x: r, y: 0, kind: 'zero' }
+    ]);
+  });
+
+  it('reports tangent roots once', () => {
+    expectPoints(pointsOf('y = (x - 0.4142)^2'), [
+      { x: 0.4142, y: 0, kind: 'minimum' },
+      { x: 0.4142, y: 0, kind: 'zero' }
+    ]);
+  });
+
+  it('ignores sign changes across poles', () => {
+    expect(pointsOf('y = 1/x')).toEqual([]);
+  });
+
+  it('stays inside the row domain and the viewport', () => {
+    const points = pointsOf('y = sin(x)', '0', '4');
+    expect(points.every((point) => point.x > 0 && point.x < 4)).toBe(true);
+    expect([...points.map((point) => point.kind)].sort()).toEqual(['inflection', 'maximum', 'zero']);
+    points.forEach((point) => expect(point.x).toBeCloseTo(point.kind === 'maximum' ? Math.PI / 2 : Math.PI, 4));
+    expect(pointsOf('y = x^2 + 10')).toEqual([]);
+  });
+
+  it('only applies to explicit rows', () => {
+    expect(hasPointsOfInterest(prepareMath('y = x^2'))).toBe(true);
+    expect(hasPointsOfInterest(prepareMath('x^2 + y^2 = 1'))).toBe(false);
+    expect(hasPointsOfInterest(prepareMath('x = y^2'))).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+import type { PointOfInterest, PointOfInterestKind, Viewport } from '../types';
+import { parseDomainBounds, type PreparedMath } from './mathParser';
+import type { CurveSource } from './plotSampling';
+
+type Sampled = (x: number) => number | null;
+
+interface SignChange {
+  x: number;
+  rising: boolean;
+}
+
+const MAX_GRID_INTERVALS = 2000;
+const MAX_POINTS_OF_INTEREST = 200;
+const BISECTION_STEPS = 60;
+const ROOT_TOLERANCE = 1e-6;
+const DERIVATIVE_TOLERANCE = 1e-3;
+const MAX_ABS_VALUE = 1e6;
+
+export const POINT_OF_INTEREST_LABELS: Record<PointOfInterestKind, string> = {
+  zero: 'zero',
+  maximum: 'local max',
+  minimum: 'local min',
+  inflection: 'inflection'
+};
+
+export function hasPointsOfInterest(expr: PreparedMath): boolean {
+  return expr.mode === 'explicit' && !expr.error && expr.evaluator !== null;
+}
+
+function bisect(g: Sampled, a: number, b: number, ga: number): number | null {
+  let lo = a;
+  let hi = b;
+  let low = ga;
+
+  for (let step = 0; step < BISECTION_STEPS; step += 1) {
+    const mid = (lo + hi) / 2;
+    const value = g(mid);
+    if (value === null) {
+      return null;
+    }
+    if (value === 0) {
+      return mid;
+    }
+    if (Math.sign(value) === Math.sign(low)) {
+      lo = mid;
+      low = value;
+    } else {
+      hi = mid;
+    }
+  }
+
+  return (lo + hi) / 2;
+}
+
+// Brackets strict sign changes of g on the grid; a sign change across a jump or pole leaves a large |g| and is dropped.
+function signChanges(g: Sampled, xs: number[], tolerance: number): SignChange[] {
+  const values = xs.map(g);
+  const changes: SignChange[] = [];
+
+  for (let i = 1; i < xs.length; i += 1) {
+    const ga = values[i - 1];
+    const gb = values[i];
+    if (ga === null || gb === null || ga === 0) {
+      continue;
+    }
+
+    if (gb === 0) {
+      const gc = values[i + 1];
+      if (gc !== null && gc !== undefined && ga * gc < 0) {
+        changes.push({ x: xs[i], rising: gc > 0 });
+      }
+      continue;
+    }
+
+    if (ga * gb > 0) {
+      continue;
+    }
+
+    const x = bisect(g, xs[i - 1], xs[i], ga);
+    const value = x === null ? null : g(x);
+    if (x !== null && value !== null && Math.abs(value) <= tolerance * Math.max(1, Math.abs(ga), Math.abs(gb))) {
+      changes.push({ x, rising: gb > 0 });
+    }
+  }
+
+  return changes;
+}
+
+export function findPointsOfInterest(expr: PreparedMath & CurveSource, viewport: Viewport): PointOfInterest[] {
+  const evaluator = expr.evaluator;
+  if (!hasPointsOfInterest(expr) || !evaluator) {
+    return [];
+  }
+
+  const domain = parseDomainBounds(expr.domainMin, expr.domainMax, viewport);
+  const xMin = Math.max(domain.xMin, viewport.xMin);
+  const xMax = Math.min(domain.xMax, viewport.xMax);
+  if (xMax <= xMin) {
+    return [];
+  }
+
+  const intervals = Math.max(16, Math.min(MAX_GRID_INTERVALS, Math.round(expr.samples)));
+  const step = (xMax - xMin) / intervals;
+  const xs = Array.from({ length: intervals + 1 }, (_, index) => xMin + index * step);
+
+  const f: Sampled = (x) => {
+    const value = x >= domain.xMin && x <= domain.xMax ? evaluator(x) : null;
+    return value !== null && Math.abs(value) <= MAX_ABS_VALUE ? value : null;
+  };
+  const firstDerivative: Sampled = (x) => {
+    const h = Math.max(step * 1e-3, 1e-9 * Math.abs(x));
+    const ahead = f(x + h);
+    const behind = f(x - h);
+    return ahead === null || behind === null ? null : (ahead - behind) / (2 * h);
+  };
+  const secondDerivative: Sampled = (x) => {
+    const h = Math.max(step * 1e-2, 1e-6 * Math.abs(x));
+    const ahead = f(x + h);
+    const here = f(x);
+    const behind = f(x - h);
+    return ahead === null || here === null || behind === null ? null : (ahead - 2 * here + behind) / (h * h);
+  };
+
+  const span = Math.max(xMax - xMin, viewport.yMax - viewport.yMin);
+  const snap = (value: number) => (Math.abs(value) <= 1e-9 * span ? 0 : value);
+  const found: PointOfInterest[] = [];
+  const add = (x: number, kind: PointOfInterestKind, y = f(x)) => {
+    if (y !== null && y >= viewport.yMin && y <= viewport.yMax) {
+      found.push({ x: snap(x), y: snap(y), kind });
+    }
+  };
+
+  const zeros = signChanges(f, xs, ROOT_TOLERANCE).map(({ x }) => x);
+  zeros.forEach((x) => add(x, 'zero', 0));
+  signChanges(firstDerivative, xs, DERIVATIVE_TOLERANCE).forEach(({ x, rising }) => {
+    add(x, rising ? 'minimum' : 'maximum');
+    // Tangent roots such as x^2 touch zero without a sign change of f.
+    const y = f(x);
+    if (y !== null && Math.abs(y) <= ROOT_TOLERANCE && !zeros.some((zero) => Math.abs(zero - x) <= step)) {
+      add(x, 'zero', 0);
+    }
+  });
+  signChanges(secondDerivative, xs, DERIVATIVE_TOLERANCE).forEach(({ x }) => add(x, 'inflection'));
+
+  return found.sort((p, q) => p.x - q.x).slice(0, MAX_POINTS_OF_INTEREST);
+}
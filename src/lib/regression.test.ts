@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { collectMathContext, prepareMath } from './mathParser';
+import { coefficientOfDetermination, fitLeastSquares } from './regression';
+
+const XS = [0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4];
+
+describe('fitLeastSquares', () => {
+  it.each([
+    ['linear', (p: number[], x: number) => p[0] * x + p[1], [2, -1]],
+    ['quadratic', (p: number[], x: number) => p[0] * x * x + p[1] * x + p[2], [0.5, -2, 3]],
+    ['exponential', (p: number[], x: number) => p[0] * Math.exp(p[1] * x), [1.5, 0.4]],
+    ['power', (p: number[], x: number) => p[0] * x ** p[1], [3, 0.5]],
+    ['logistic', (p: number[], x: number) => p[0] / (1 + Math.exp(-p[1] * (x - p[2]))), [5, 2, 2]]
+  ])('recovers %s coefficients from exact data', (_name, model, expected) => {
+    const ys = XS.map((x) => model(expected, x));
+    const result = fitLeastSquares(model, XS, ys, expected.length);
+    expect(result).not.toBeNull();
+    result?.params.forEach((value, index) => expect(value).toBeCloseTo(expected[index], 4));
+    expect(result?.sse).toBeLessThan(1e-8);
+  });
+
+  it('fails when the model is undefined for every guess', () => {
+    expect(fitLeastSquares(() => null, XS, XS, 1)).toBeNull();
+  });
+});
+
+describe('coefficientOfDetermination', () => {
+  it('compares the residual to the spread of the data', () => {
+    expect(coefficientOfDetermination([1, 2, 3], 0)).toBe(1);
+    expect(coefficientOfDetermination([1, 2, 3], 2)).toBe(0);
+    expect(coefficientOfDetermination([4, 4], 0)).toBe(1);
+    expect(coefficientOfDetermination([4, 4], 1)).toBe(0);
+  });
+});
+
+describe('fit rows', () => {
+  const columns = [
+    { name: 'x1', values: [1, 2, 3, 4, 5, null] },
+    { name: 'y1', values: [2.1, 3.9, 6.2, 7.8, 10.1, 99] },
+    { name: 'z1', values: [1, 1, 1] }
+  ];
+  const context = collectMathContext(['k = 3'], columns);
+
+  it('behaves like an explicit curve with the fitted numbers', () => {
+    const prepared = prepareMath('y1 ~ m*x1 + b', context);
+    expect(prepared.mode).toBe('explicit');
+    expect(prepared.fit?.observations).toBe(5);
+    expect(prepared.fit?.coefficients.m).toBeCloseTo(1.99, 8);
+    expect(prepared.fit?.coefficients.b).toBeCloseTo(0.05, 8);
+    expect(prepared.fit?.rSquared).toBeGreaterThan(0.99);
+    expect(prepared.evaluator?.(10)).toBeCloseTo(19.95, 6);
+  });
+
+  it('keeps defined parameters fixed', () => {
+    const prepared = prepareMath('y1 ~ k*x1 + b', context);
+    expect(Object.keys(prepared.fit?.coefficients ?? {})).toEqual(['b']);
+  });
+
+  it.each([
+    ['q ~ m*x1 + b', 'start with a table column'],
+    ['y1 ~ m*x1 + z1', 'exactly one data column'],
+    ['y1 ~ k*x1', 'at least one unknown coefficient'],
+    ['y1 ~ m*x1 + x', '"x" is not a table column'],
+    ['z1 ~ a*y1^2 + b*y1 + c + d', 'Need at least 4 complete rows']
+  ])('explains why %s cannot be fitted', (input, message) => {
+    expect(prepareMath(input, context).error).toContain(message);
+  });
+});
@@ -0,0 +1,148 @@
+export interface LeastSquaresResult {
+  params: number[];
+  sse: number;
+}
+
+const INITIAL_GUESSES = [1, 0.5, -1, 0.1, 2];
+
+function sumOfSquares(values: number[]): number {
+  return values.reduce((sum, value) => sum + value * value, 0);
+}
+
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row += 1) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+
+    if (Math.abs(a[pivot][col]) < 1e-300) {
+      return null;
+    }
+
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row += 1) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k += 1) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row -= 1) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k += 1) {
+      sum -= a[row][k] * solution[k];
+    }
+    solution[row] = sum / a[row][row];
+  }
+
+  return solution.every(Number.isFinite) ? solution : null;
+}
+
+function levenbergMarquardt(
+  residuals: (params: number[]) => number[] | null,
+  initial: number[],
+  maxIterations: number
+): LeastSquaresResult | null {
+  let params = [...initial];
+  let current = residuals(params);
+  if (!current) {
+    return null;
+  }
+
+  let sse = sumOfSquares(current);
+  let lambda = 1e-3;
+
+  for (let iteration = 0; iteration < maxIterations && lambda < 1e12; iteration += 1) {
+    const base = current;
+    const jacobian: number[][] = [];
+
+    for (let j = 0; j < params.length; j += 1) {
+      const step = 1e-6 * Math.max(1, Math.abs(params[j]));
+      const shifted = [...params];
+      shifted[j] += step;
+      const next = residuals(shifted);
+      if (!next) {
+        return { params, sse };
+      }
+      jacobian.push(next.map((value, i) => (value - base[i]) / step));
+    }
+
+    const normal = jacobian.map((left) => jacobian.map((right) => left.reduce((sum, v, i) => sum + v * right[i], 0)));
+    const gradient = jacobian.map((column) => -column.reduce((sum, v, i) => sum + v * base[i], 0));
+
+    let improved = false;
+    while (!improved && lambda < 1e12) {
+      const damped = normal.map((row, i) =>
+        row.map((value, j) => (i === j ? value + lambda * Math.max(value, 1e-9) : value))
+      );
+      const delta = solveLinearSystem(damped, gradient);
+      const candidate = delta ? params.map((value, j) => value + delta[j]) : null;
+      const candidateResiduals = candidate ? residuals(candidate) : null;
+      const candidateSse = candidateResiduals ? sumOfSquares(candidateResiduals) : Infinity;
+
+      if (candidate && candidateResiduals && candidateSse < sse) {
+        const gain = sse - candidateSse;
+        params = candidate;
+        current = candidateResiduals;
+        sse = candidateSse;
+        lambda = Math.max(lambda / 10, 1e-12);
+        improved = true;
+
+        if (gain <= 1e-14 * Math.max(1, sse)) {
+          return { params, sse };
+        }
+      } else {
+        lambda *= 10;
+      }
+    }
+  }
+
+  return { params, sse };
+}
+
+export function fitLeastSquares(
+  model: (params: number[], x: number) => number | null,
+  xs: number[],
+  ys: number[],
+  paramCount: number
+): LeastSquaresResult | null {
+  const residuals = (params: number[]): number[] | null => {
+    const values: number[] = [];
+    for (let i = 0; i < xs.length; i += 1) {
+      const predicted = model(params, xs[i]);
+      if (predicted === null || !Number.isFinite(predicted)) {
+        return null;
+      }
+      values.push(predicted - ys[i]);
+    }
+    return values;
+  };
+
+  let best: LeastSquaresResult | null = null;
+  for (const guess of INITIAL_GUESSES) {
+    const result = levenbergMarquardt(residuals, new Array<number>(paramCount).fill(guess), 500);
+    if (result && Number.isFinite(result.sse) && (!best || result.sse < best.sse)) {
+      best = result;
+    }
+  }
+
+  return best;
+}
+
+export function coefficientOfDetermination(ys: number[], sse: number): number {
+  const mean = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const sst = ys.reduce((sum, y) => sum + (y - mean) ** 2, 0);
+  if (sst === 0) {
+    return sse === 0 ? 1 : 0;
+  }
+  return 1 - sse / sst;
+}
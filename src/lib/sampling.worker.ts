@@ -0,0 +1,78 @@
+import { findIntersections } from './intersections';
+import { collectMathContext, prepareMath, type MathContext, type PreparedMath } from './mathParser';
+import { prepareMath3D, type PreparedSurfaceMath } from './mathParser3d';
+import { sampleCurveGeometry, sampleSurfaceGrid, type CurveSource, type MathSources } from './plotSampling';
+import { findPointsOfInterest } from './pointsOfInterest';
+import type { SamplingRequest, SamplingResponse } from './samplingPool';
+
+const MAX_PREPARED_ROWS = 256;
+
+let contextVersion = -1;
+let context: MathContext | null = null;
+const curves = new Map<string, PreparedMath>();
+const surfaces = new Map<string, PreparedSurfaceMath>();
+
+function contextFor(sources: MathSources): MathContext {
+  if (!context || sources.version !== contextVersion) {
+    contextVersion = sources.version;
+    context = collectMathContext(sources.rawInputs, sources.columns, sources.angleMode);
+    curves.clear();
+    surfaces.clear();
+  }
+  return context;
+}
+
+// Least recently used rows are evicted first; Map iteration follows insertion order.
+function cached<T>(cache: Map<string, T>, rawInput: string, prepare: () => T): T {
+  let prepared = cache.get(rawInput);
+  if (prepared === undefined) {
+    prepared = prepare();
+  } else {
+    cache.delete(rawInput);
+  }
+  cache.set(rawInput, prepared);
+  if (cache.size > MAX_PREPARED_ROWS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return prepared;
+}
+
+self.onmessage = (event: MessageEvent<SamplingRequest>) => {
+  const request = event.data;
+  const mathContext = contextFor(request.sources);
+  const results: SamplingResponse['results'] = {};
+  const failures: SamplingResponse['failures'] = {};
+  const attempt = (id: string, sample: () => SamplingResponse['results'][string]) => {
+    try {
+      results[id] = sample();
+    } catch (error) {
+      failures[id] = error instanceof Error ? error.message : 'Sampling failed.';
+    }
+  };
+  const curve = (row: CurveSource) => ({
+    ...cached(curves, row.rawInput, () => prepareMath(row.rawInput, mathContext)),
+    ...row
+  });
+
+  if (request.kind === 'curves') {
+    request.rows.forEach((row) => {
+      attempt(row.id, () => sampleCurveGeometry(curve(row), request.viewport));
+    });
+  } else if (request.kind === 'pointsOfInterest') {
+    request.rows.forEach((row) => {
+      attempt(row.id, () => findPointsOfInterest(curve(row), request.viewport));
+    });
+  } else if (request.kind === 'intersections') {
+    request.rows.forEach((pair) => {
+      attempt(pair.id, () => findIntersections(curve(pair.first), curve(pair.second), request.viewport));
+    });
+  } else {
+    request.rows.forEach((row) => {
+      const prepared = cached(surfaces, row.rawInput, () => prepareMath3D(row.rawInput, mathContext));
+      attempt(row.id, () => sampleSurfaceGrid({ ...prepared, ...row }, request.viewport));
+    });
+  }
+
+  const response: SamplingResponse = { id: request.id, results, failures };
+  self.postMessage(response);
+};
@@ -0,0 +1,320 @@
+import type { Point, PointOfInterest, PreparedExpression, PreparedExpression3D, Viewport } from '../types';
+import { findIntersections } from './intersections';
+import {
+  curveSource,
+  sampleCurveGeometry,
+  sampleSurfaceGrid,
+  surfaceSource,
+  type CurveGeometry,
+  type CurveSource,
+  type MathSources,
+  type SurfaceBounds,
+  type SurfaceGrid,
+  type SurfaceSource
+} from './plotSampling';
+import { findPointsOfInterest } from './pointsOfInterest';
+
+export interface IntersectionPair<Row extends CurveSource = CurveSource> {
+  id: string;
+  first: Row;
+  second: Row;
+}
+
+export type SamplingRequest =
+  | { id: number; kind: 'curves'; sources: MathSources; rows: CurveSource[]; viewport: Viewport }
+  | { id: number; kind: 'surfaces'; sources: MathSources; rows: SurfaceSource[]; viewport: SurfaceBounds }
+  | { id: number; kind: 'pointsOfInterest'; sources: MathSources; rows: CurveSource[]; viewport: Viewport }
+  | { id: number; kind: 'intersections'; sources: MathSources; rows: IntersectionPair[]; viewport: Viewport };
+
+export interface SamplingResponse {
+  id: number;
+  results: Record<string, CurveGeometry | SurfaceGrid | PointOfInterest[] | Point[] | null>;
+  failures: Record<string, string>;
+}
+
+export type SamplingCallback<Result> = (
+  results: Record<string, Result | null>,
+  failures: Record<string, string>
+) => void;
+
+export interface SamplingChannel {
+  sampleCurves: (
+    sources: MathSources,
+    expressions: PreparedExpression[],
+    viewport: Viewport,
+    onResult: SamplingCallback<CurveGeometry>
+  ) => void;
+  sampleSurfaces: (
+    sources: MathSources,
+    expressions: PreparedExpression3D[],
+    viewport: SurfaceBounds,
+    onResult: SamplingCallback<SurfaceGrid>
+  ) => void;
+  findPointsOfInterest: (
+    sources: MathSources,
+    expressions: PreparedExpression[],
+    viewport: Viewport,
+    onResult: SamplingCallback<PointOfInterest[]>
+  ) => void;
+  findIntersections: (
+    sources: MathSources,
+    pairs: IntersectionPair<PreparedExpression>[],
+    viewport: Viewport,
+    onResult: SamplingCallback<Point[]>
+  ) => void;
+  dispose: () => void;
+}
+
+interface RunningJob {
+  channel: number;
+  request: SamplingRequest;
+  started: number;
+  retireTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface PoolSlot {
+  worker: Worker | null;
+  running: RunningJob | null;
+  queued: Map<number, SamplingRequest>;
+}
+
+const MAX_WORKERS = 4;
+// Outdated jobs get this long to finish before their worker is replaced, so quick pans keep the worker caches.
+const STALE_JOB_MS = 400;
+
+let pool: PoolSlot[] | null | undefined;
+let nextRequestId = 0;
+let nextChannelId = 0;
+const listeners = new Map<number, (response: SamplingResponse) => void>();
+
+function pump(slot: PoolSlot) {
+  if (slot.running !== null) {
+    return;
+  }
+
+  const next = slot.queued.entries().next();
+  if (next.done) {
+    return;
+  }
+
+  const [channel, request] = next.value;
+  slot.queued.delete(channel);
+  slot.running = { channel, request, started: performance.now(), retireTimer: null };
+  slot.worker ??= spawnWorker(() => slot);
+  slot.worker.postMessage(request);
+}
+
+function clearRetireTimer(job: RunningJob | null) {
+  if (job?.retireTimer) {
+    clearTimeout(job.retireTimer);
+    job.retireTimer = null;
+  }
+}
+
+function finish(slot: PoolSlot, response: SamplingResponse) {
+  clearRetireTimer(slot.running);
+  slot.running = null;
+  listeners.get(response.id)?.(response);
+  listeners.delete(response.id);
+  pump(slot);
+}
+
+function failedRows(request: SamplingRequest, message: string): Record<string, string> {
+  return Object.fromEntries(request.rows.map((row) => [row.id, message]));
+}
+
+function spawnWorker(slot: () => PoolSlot): Worker {
+  const worker = new Worker(new URL('./sampling.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<SamplingResponse>) => finish(slot(), event.data);
+  // A worker that errors, whether mid-job, between jobs or while loading, is dropped; the next job starts a fresh one.
+  worker.onerror = (event) => {
+    event.preventDefault();
+    const current = slot();
+    const { running } = current;
+    if (running !== null) {
+      const failures = failedRows(running.request, event.message || 'Worker error.');
+      listeners.get(running.request.id)?.({ id: running.request.id, results: {}, failures });
+    }
+    restartWorker(current);
+  };
+  return worker;
+}
+
+function restartWorker(slot: PoolSlot) {
+  if (slot.running !== null) {
+    clearRetireTimer(slot.running);
+    listeners.delete(slot.running.request.id);
+    slot.running = null;
+  }
+  slot.worker?.terminate();
+  slot.worker = null;
+  pump(slot);
+}
+
+function createSlot(): PoolSlot {
+  return { worker: null, running: null, queued: new Map() };
+}
+
+function replaceWorker(slot: PoolSlot, job: RunningJob) {
+  clearRetireTimer(job);
+  if (slot.running === job) {
+    restartWorker(slot);
+  }
+}
+
+// Called once a channel moves on to a newer generation; its running jobs are then outdated.
+function retireOutdated(channel: number) {
+  pool?.forEach((slot) => {
+    const job = slot.running;
+    if (job?.channel !== channel || job.retireTimer !== null) {
+      return;
+    }
+    const remaining = STALE_JOB_MS - (performance.now() - job.started);
+    if (remaining <= 0) {
+      replaceWorker(slot, job);
+    } else {
+      job.retireTimer = setTimeout(() => replaceWorker(slot, job), remaining);
+    }
+  });
+}
+
+function cancelRetirement(channel: number) {
+  pool?.forEach((slot) => {
+    if (slot.running?.channel === channel) {
+      clearRetireTimer(slot.running);
+    }
+  });
+}
+
+export function retainFailed<Result>(
+  previous: Record<string, Result | null>,
+  results: Record<string, Result | null>,
+  failures: Record<string, string>
+): Record<string, Result | null> {
+  const kept = Object.keys(failures).filter((id) => id in previous);
+  return { ...results, ...Object.fromEntries(kept.map((id) => [id, previous[id]])) };
+}
+
+function workerPool(): PoolSlot[] | null {
+  if (pool === undefined) {
+    const cores = typeof navigator === 'undefined' ? 2 : navigator.hardwareConcurrency || 2;
+    const size = Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+    pool = typeof Worker === 'undefined' ? null : Array.from({ length: size }, createSlot);
+  }
+  return pool;
+}
+
+export function createSamplingChannel(): SamplingChannel {
+  const channel = nextChannelId;
+  nextChannelId += 1;
+  let generation = 0;
+
+  const cancelQueued = () =>
+    pool?.forEach((slot) => {
+      const stale = slot.queued.get(channel);
+      if (stale) {
+        listeners.delete(stale.id);
+        slot.queued.delete(channel);
+      }
+    });
+
+  const submit = <Row extends { id: string }, Result>(
+    rows: Row[],
+    request: (id: number, part: Row[]) => SamplingRequest,
+    sampleHere: (row: Row) => Result | null,
+    onResult: SamplingCallback<Result>
+  ) => {
+    generation += 1;
+    const current = generation;
+    const slots = workerPool();
+    cancelQueued();
+    retireOutdated(channel);
+
+    const results: Record<string, Result | null> = {};
+    const failures: Record<string, string> = {};
+
+    if (!slots) {
+      rows.forEach((row) => {
+        try {
+          results[row.id] = sampleHere(row);
+        } catch (error) {
+          failures[row.id] = error instanceof Error ? error.message : 'Sampling failed.';
+        }
+      });
+      onResult(results, failures);
+      return;
+    }
+
+    const parts = slots.map(() => [] as Row[]);
+    rows.forEach((row, index) => parts[index % slots.length].push(row));
+    let remaining = parts.filter((part) => part.length > 0).length;
+    if (remaining === 0) {
+      onResult({}, {});
+      return;
+    }
+
+    slots.forEach((slot, index) => {
+      if (parts[index].length === 0) {
+        return;
+      }
+
+      const id = nextRequestId;
+      nextRequestId += 1;
+      listeners.set(id, (response) => {
+        if (current !== generation) {
+          return;
+        }
+        Object.assign(results, response.results);
+        Object.assign(failures, response.failures);
+        remaining -= 1;
+        if (remaining === 0) {
+          onResult(results, failures);
+        }
+      });
+      slot.queued.set(channel, request(id, parts[index]));
+      pump(slot);
+    });
+  };
+
+  return {
+    sampleCurves: (sources, expressions, viewport, onResult) =>
+      submit(
+        expressions,
+        (id, part) => ({ id, kind: 'curves', sources, rows: part.map(curveSource), viewport }),
+        (expr) => sampleCurveGeometry(expr, viewport),
+        onResult
+      ),
+    sampleSurfaces: (sources, expressions, viewport, onResult) =>
+      submit(
+        expressions,
+        (id, part) => ({ id, kind: 'surfaces', sources, rows: part.map(surfaceSource), viewport }),
+        (expr) => sampleSurfaceGrid(expr, viewport),
+        onResult
+      ),
+    findPointsOfInterest: (sources, expressions, viewport, onResult) =>
+      submit(
+        expressions,
+        (id, part) => ({ id, kind: 'pointsOfInterest', sources, rows: part.map(curveSource), viewport }),
+        (expr) => findPointsOfInterest(expr, viewport),
+        onResult
+      ),
+    findIntersections: (sources, pairs, viewport, onResult) =>
+      submit(
+        pairs,
+        (id, part) => ({
+          id,
+          kind: 'intersections',
+          sources,
+          rows: part.map((pair) => ({ id: pair.id, first: curveSource(pair.first), second: curveSource(pair.second) })),
+          viewport
+        }),
+        (pair) => findIntersections(pair.first, pair.second, viewport),
+        onResult
+      ),
+    dispose: () => {
+      generation += 1;
+      cancelQueued();
+      cancelRetirement(channel);
+    }
+  };
+}
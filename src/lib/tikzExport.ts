@@ -1,15 +1,51 @@
-import type { GraphSettings, PreparedExpression, Viewport } from '../types';
-import { parseDomainBounds, sampleExpression } from './mathParser';
-import { convertAstToTikz } from './tikzExpr';
-import { buildTicks, getNiceTickStep } from './viewport';
+import type { MathNode } from 'mathjs';
+import type {
+  Diagnostic,
+  GraphSettings,
+  PiecewisePiece,
+  Point,
+  PointOfInterest,
+  PreparedDataTable,
+  PreparedExpression,
+  Viewport
+} from '../types';
+import { tableSegments } from './dataTable';
+import { exportWarning } from './diagnostics';
+import { FUNCTION_ARITY } from './functionLibrary';
+import {
+  isStrictRelation,
+  mirroredViewport,
+  parseCurveDomain,
+  parseDomainBounds,
+  sampleExpression,
+  sampleImplicitContours,
+  sampleInequalityRegion,
+  sampleMirrored,
+  sampleParametric
+} from './mathParser';
+import { pieceEndpoints } from './piecewise';
+import { convertAstToTikz, type TikzExprOptions } from './tikzExpr';
+import { buildPolarGrid, buildTicks, getNiceTickStep } from './viewport';
 import { formatNumber } from './formatting';
 
 interface TikzExportInput {
   expressions: PreparedExpression[];
+  tables: PreparedDataTable[];
   viewport: Viewport;
   settings: GraphSettings;
+  parameters: Record<string, number>;
+  intersections: Point[];
+  pointsOfInterest: Record<string, PointOfInterest[]>;
 }
 
+const PICTURE_SCALE = 0.6;
+const REGION_OPACITY = 0.2;
+const ENDPOINT_RADIUS = '2pt';
+const PGFPLOTS_VARIABLES: Record<string, string> = { x: 'x', y: 'y' };
+const MIRRORED_VARIABLES: Record<string, string> = { y: '\\y' };
+const MIN_PLOT_SAMPLES = 40;
+const MAX_PLOT_SAMPLES = 1200;
+
 function hexToRgb(hex: string): { r: number; g: number; b: number } {
   const cleaned = hex.replace('#', '');
   const full = cleaned.length === 3 ? cleaned.split('').map((c) => c + c).join('') : cleaned;
@@ -26,14 +62,18 @@ function tikzColor(hex: string): string {
   return `{rgb,255:red,${r};green,${g};blue,${b}}`;
 }
 
-function lineStyle(expr: PreparedExpression): string {
+function lineStyle(expr: PreparedExpression, dashed = expr.dashed): string {
   const parts = [`line width=${expr.lineWidth.toFixed(2)}pt`, `draw=${tikzColor(expr.color)}`];
-  if (expr.dashed) {
+  if (dashed) {
     parts.push('dash pattern=on 5pt off 3pt');
   }
   return parts.join(', ');
 }
 
+function plotSamples(expr: PreparedExpression): number {
+  return Math.max(MIN_PLOT_SAMPLES, Math.min(MAX_PLOT_SAMPLES, Math.round(expr.samples)));
+}
+
 function downsample<T>(arr: T[], maxPoints: number): T[] {
   if (arr.length <= maxPoints) {
     return arr;
@@ -47,12 +87,87 @@ function downsample<T>(arr: T[], maxPoints: number): T[] {
   return result;
 }
 
+function coordinatePlots(segments: Point[][], style: string): string[] {
+  return segments.map((segment) => {
+    const coords = downsample(segment, 800)
+      .map((p) => `(${formatNumber(p.x)},${formatNumber(p.y)})`)
+      .join(' ');
+    return `\\draw[${style}] plot coordinates {${coords}};`;
+  });
+}
+
+function parametricToTikz(
+  expr: PreparedExpression,
+  viewport: Viewport,
+  options: TikzExprOptions
+): string[] {
+  if (!expr.curveEvaluator || !expr.componentNodes) {
+    return [];
+  }
+
+  const style = lineStyle(expr);
+  const { tMin, tMax } = parseCurveDomain(expr.tMin, expr.tMax);
+  const curveOptions = { ...options, variables: { t: '\\t' } };
+  const xSymbolic = convertAstToTikz(expr.componentNodes[0], curveOptions);
+  const ySymbolic = convertAstToTikz(expr.componentNodes[1], curveOptions);
+
+  if (xSymbolic.ok && xSymbolic.expression && ySymbolic.ok && ySymbolic.expression) {
+    const sampleCount = plotSamples(expr);
+    return [
+      `\\draw[${style}, domain=${formatNumber(tMin)}:${formatNumber(tMax)}, samples=${sampleCount}, smooth, variable=\\t]`,
+      `  plot ({${xSymbolic.expression}},{${ySymbolic.expression}});`
+    ];
+  }
+
+  const reason = (xSymbolic.ok ? ySymbolic.reason : xSymbolic.reason) ?? 'fallback';
+  const segments = sampleParametric(expr.curveEvaluator, tMin, tMax, expr.samples, viewport, expr.curveBatchEvaluator);
+  return [`% ${expr.rawInput} exported as coordinates (${reason}).`, ...coordinatePlots(segments, style)];
+}
+
+function polarToTikz(expr: PreparedExpression, viewport: Viewport, options: TikzExprOptions): string[] {
+  if (!expr.curveEvaluator) {
+    return [];
+  }
+
+  const style = lineStyle(expr);
+  const { tMin, tMax } = parseCurveDomain(expr.tMin, expr.tMax, expr.fullTurn);
+  const symbolic = convertAstToTikz(expr.node, { ...options, variables: { theta: '\\t' } });
+  // In degrees mode theta already is the pgf polar angle; in radians mode it is converted like trig arguments.
+  const angle = options.angleMode === 'degrees' ? '\\t' : '{deg(\\t)}';
+
+  if (symbolic.ok && symbolic.expression) {
+    const sampleCount = plotSamples(expr);
+    return [
+      `\\draw[${style}, domain=${formatNumber(tMin)}:${formatNumber(tMax)}, samples=${sampleCount}, smooth, variable=\\t]`,
+      `  plot (${angle}:{${symbolic.expression}});`
+    ];
+  }
+
+  const segments = sampleParametric(expr.curveEvaluator, tMin, tMax, expr.samples, viewport, expr.curveBatchEvaluator);
+  return [
+    `% ${expr.rawInput} exported as coordinates (${symbolic.reason ?? 'fallback'}).`,
+    ...coordinatePlots(segments, style)
+  ];
+}
+
 function buildGridAndAxes(viewport: Viewport, settings: GraphSettings): string[] {
   const lines: string[] = [];
   const xRange = viewport.xMax - viewport.xMin;
   const yRange = viewport.yMax - viewport.yMin;
 
-  if (settings.showGrid) {
+  if (settings.showGrid && settings.polarGrid) {
+    const { radii, angles, maxRadius } = buildPolarGrid(viewport, 12);
+
+    lines.push(`% Polar grid (${radii.length} circles, ${angles.length} rays)`);
+    radii.forEach((r) => {
+      lines.push(`\\draw[gray!25, very thin] (0,0) circle (${formatNumber(r)});`);
+    });
+    angles.forEach((angle) => {
+      lines.push(
+        `\\draw[gray!25, very thin] (0,0) -- (${formatNumber((angle * 180) / Math.PI)}:${formatNumber(maxRadius)});`
+      );
+    });
+  } else if (settings.showGrid) {
     const xStep = getNiceTickStep(xRange, 16);
     const yStep = getNiceTickStep(yRange, 12);
 
@@ -135,34 +250,32 @@ function buildFrameAndWatermark(viewport: Viewport): string[] {
   ];
 }
 
-function expressionToTikz(expr: PreparedExpression, viewport: Viewport): string[] {
-  if (!expr.visible || expr.error) {
-    return [];
-  }
-
-  if (expr.mode === 'implicit') {
-    return [`% ${expr.rawInput} is an implicit equation and is currently not included in TikZ export.`];
-  }
+function clampedExplicitDomain(expr: PreparedExpression, viewport: Viewport): { xMin: number; xMax: number } | null {
+  const domain = parseDomainBounds(expr.domainMin, expr.domainMax, viewport);
+  const xMin = Math.max(domain.xMin, viewport.xMin);
+  const xMax = Math.min(domain.xMax, viewport.xMax);
+  return xMax > xMin ? { xMin, xMax } : null;
+}
 
+function explicitToTikz(
+  expr: PreparedExpression,
+  viewport: Viewport,
+  options: TikzExprOptions,
+  style: string
+): string[] {
   if (!expr.evaluator) {
     return [];
   }
 
-  const domain = parseDomainBounds(expr.domainMin, expr.domainMax, viewport);
-  const clampedDomain = {
-    xMin: Math.max(domain.xMin, viewport.xMin),
-    xMax: Math.min(domain.xMax, viewport.xMax)
-  };
-
-  if (clampedDomain.xMax <= clampedDomain.xMin) {
+  const clampedDomain = clampedExplicitDomain(expr, viewport);
+  if (!clampedDomain) {
     return [`% Skipped ${expr.rawInput}: domain is outside viewport.`];
   }
 
-  const style = lineStyle(expr);
-  const symbolic = convertAstToTikz(expr.node);
+  const symbolic = convertAstToTikz(expr.node, options);
 
   if (symbolic.ok && symbolic.expression) {
-    const sampleCount = Math.max(40, Math.min(1200, Math.round(expr.samples)));
+    const sampleCount = plotSamples(expr);
     return [
       `\\draw[${style}, domain=${formatNumber(clampedDomain.xMin)}:${formatNumber(
         clampedDomain.xMax
@@ -171,48 +284,532 @@ function expressionToTikz(expr: PreparedExpression, viewport: Viewport): string[
     ];
   }
 
-  const segments = sampleExpression(
+  const { segments, breaks } = sampleExpression(
     expr.evaluator,
     clampedDomain.xMin,
     clampedDomain.xMax,
     expr.samples,
     viewport
   );
+  const breakNotes = breaks.map((item) => `% Break at x = ${formatNumber(item.x)} (${item.kind}).`);
 
-  const lines: string[] = [];
-  lines.push(`% ${expr.rawInput} exported as coordinates (${symbolic.reason ?? 'fallback'}).`);
+  return [
+    `% ${expr.rawInput} exported as coordinates (${symbolic.reason ?? 'fallback'}).`,
+    ...breakNotes,
+    ...coordinatePlots(segments, style)
+  ];
+}
 
-  segments.forEach((segment) => {
-    const slim = downsample(segment, 800);
-    const coords = slim
-      .map((p) => `(${formatNumber(p.x)},${formatNumber(p.y)})`)
-      .join(' ');
+function usesSymbol(node: MathNode | null, name: string): boolean {
+  const matches = node?.filter(
+    (child) => child.type === 'SymbolNode' && (child as unknown as { name: string }).name === name
+  );
+  return (matches?.length ?? 0) > 0;
+}
+
+function mirroredToTikz(expr: PreparedExpression, viewport: Viewport, options: TikzExprOptions): string[] {
+  if (!expr.evaluator) {
+    return [];
+  }
 
-    lines.push(`\\draw[${style}] plot coordinates {${coords}};`);
+  const yDomain = clampedExplicitDomain(expr, mirroredViewport(viewport));
+  if (!yDomain) {
+    return [`% Skipped ${expr.rawInput}: domain is outside viewport.`];
+  }
+
+  const style = lineStyle(expr);
+  const yMin = formatNumber(yDomain.xMin);
+  const yMax = formatNumber(yDomain.xMax);
+
+  if (!usesSymbol(expr.node, 'y')) {
+    const x = expr.evaluator(0);
+    return x === null ? [] : [`\\draw[${style}] (${formatNumber(x)},${yMin}) -- (${formatNumber(x)},${yMax});`];
+  }
+
+  const symbolic = convertAstToTikz(expr.node, { ...options, variables: MIRRORED_VARIABLES });
+  if (symbolic.ok && symbolic.expression) {
+    const sampleCount = plotSamples(expr);
+    return [
+      `\\draw[${style}, domain=${yMin}:${yMax}, samples=${sampleCount}, smooth, variable=\\y]`,
+      `  plot ({${symbolic.expression}},{\\y});`
+    ];
+  }
+
+  const segments = sampleMirrored(expr.evaluator, yDomain.xMin, yDomain.xMax, expr.samples, viewport);
+  return [
+    `% ${expr.rawInput} exported as coordinates (${symbolic.reason ?? 'fallback'}).`,
+    ...coordinatePlots(segments, style)
+  ];
+}
+
+function pieceDomains(
+  piece: PiecewisePiece,
+  xMin: number,
+  xMax: number,
+  samples: number,
+  viewport: Viewport
+): Array<{ xMin: number; xMax: number }> {
+  if (!piece.intervals) {
+    return sampleExpression(piece.evaluator, xMin, xMax, samples, viewport).segments.map((segment) => ({
+      xMin: segment[0].x,
+      xMax: segment[segment.length - 1].x
+    }));
+  }
+
+  return piece.intervals
+    .map((interval) => ({ xMin: Math.max(interval.min, xMin), xMax: Math.min(interval.max, xMax) }))
+    .filter((domain) => domain.xMax > domain.xMin);
+}
+
+function piecewiseToTikz(
+  expr: PreparedExpression,
+  viewport: Viewport,
+  options: TikzExprOptions,
+  style: string
+): string[] {
+  const clampedDomain = clampedExplicitDomain(expr, viewport);
+  if (!expr.pieces || !clampedDomain) {
+    return [`% Skipped ${expr.rawInput}: domain is outside viewport.`];
+  }
+
+  const lines = [`% Piecewise ${expr.rawInput}`];
+  const sampleCount = plotSamples(expr);
+  const color = tikzColor(expr.color);
+
+  expr.pieces.forEach((piece) => {
+    const symbolic = convertAstToTikz(piece.value, options);
+
+    pieceDomains(piece, clampedDomain.xMin, clampedDomain.xMax, expr.samples, viewport).forEach((domain) => {
+      if (symbolic.ok && symbolic.expression) {
+        lines.push(
+          `\\draw[${style}, domain=${formatNumber(domain.xMin)}:${formatNumber(
+            domain.xMax
+          )}, samples=${sampleCount}, smooth, variable=\\x]`,
+          `  plot ({\\x},{${symbolic.expression}});`
+        );
+        return;
+      }
+
+      const { segments } = sampleExpression(piece.evaluator, domain.xMin, domain.xMax, expr.samples, viewport);
+      lines.push(...coordinatePlots(segments, style));
+    });
+
+    if (!expr.endpointDots) {
+      return;
+    }
+
+    pieceEndpoints(piece, clampedDomain.xMin, clampedDomain.xMax).forEach((endpoint) => {
+      const at = `(${formatNumber(endpoint.x)},${formatNumber(endpoint.y)})`;
+      lines.push(
+        endpoint.closed
+          ? `\\fill[fill=${color}] ${at} circle (${ENDPOINT_RADIUS});`
+          : `\\draw[draw=${color}, fill=white] ${at} circle (${ENDPOINT_RADIUS});`
+      );
+    });
+  });
+
+  return lines;
+}
+
+function labelText(label: string): string {
+  return label.includes('$') ? label : `$${label}$`;
+}
+
+function pointsToTikz(expr: PreparedExpression): string[] {
+  if (!expr.points || expr.points.length === 0) {
+    return [];
+  }
+
+  const color = tikzColor(expr.color);
+  const radius = `${(1 + expr.lineWidth).toFixed(2)}pt`;
+  const at = (point: Point) => `(${formatNumber(point.x)},${formatNumber(point.y)})`;
+  const lines = [`% Points ${expr.rawInput}`];
+
+  if (expr.points.length === 1) {
+    lines.push(`\\fill[fill=${color}] ${at(expr.points[0])} circle (${radius});`);
+  } else {
+    lines.push(
+      `\\draw[color=${color}] plot[only marks, mark=*, mark size=${radius}] coordinates {${expr.points.map(at).join(' ')}};`
+    );
+  }
+
+  expr.points.forEach((point, index) => {
+    const label = expr.pointLabels[index]?.trim();
+    if (label) {
+      lines.push(`\\node[${expr.labelAnchor}, text=${color}, font=\\small] at ${at(point)} {${labelText(label)}};`);
+    }
+  });
+
+  return lines;
+}
+
+function markedPointsToTikz(title: string, points: Point[], color: string | null = null): string[] {
+  if (points.length === 0) {
+    return [];
+  }
+
+  const fill = color ? `[fill=${color}]` : '';
+  const text = color ? `, text=${color}` : '';
+  const lines = [`% ${title}`];
+  const seen = new Set<string>();
+  points.forEach((point) => {
+    const x = formatNumber(point.x);
+    const y = formatNumber(point.y);
+    if (seen.has(`${x},${y}`)) {
+      return;
+    }
+    seen.add(`${x},${y}`);
+    lines.push(
+      `\\fill${fill} (${x},${y}) circle (${ENDPOINT_RADIUS});`,
+      `\\node[above right${text}, font=\\small] at (${x},${y}) {$(${x}, ${y})$};`
+    );
   });
 
   return lines;
 }
 
-export function generateTikzExport({ expressions, viewport, settings }: TikzExportInput): string {
+function pointsOfInterestToTikz(expr: PreparedExpression, points: PointOfInterest[]): string[] {
+  if (!expr.visible || expr.error || !expr.pointsOfInterest || !expr.exportPointsOfInterest) {
+    return [];
+  }
+
+  return markedPointsToTikz(`Points of interest ${expr.rawInput} (approximate)`, points, tikzColor(expr.color));
+}
+
+function tableToTikz(table: PreparedDataTable, tableNumber: number, viewport: Viewport): string[] {
+  const points = table.points.filter((point): point is Point => point !== null);
+  if (!table.visible || table.error || points.length === 0) {
+    return [];
+  }
+
+  const color = tikzColor(table.color);
+  const markSize = `${(1 + table.lineWidth).toFixed(2)}pt`;
+  const lineWidth = `line width=${table.lineWidth.toFixed(2)}pt`;
+  const markOptions =
+    table.plotStyle === 'lines'
+      ? 'mark=none'
+      : `mark=*, mark size=${markSize}${table.plotStyle === 'markers' ? ', only marks' : ''}`;
+  const lines = [`% Table ${tableNumber} (${points.length} points)`];
+
+  if (table.exportFormat === 'pgfplots') {
+    lines.push(
+      `% Keep x and y below in sync with the tikzpicture scale (${PICTURE_SCALE}).`,
+      `\\begin{axis}[hide axis, anchor=origin, at={(0,0)}, x=${PICTURE_SCALE}cm, y=${PICTURE_SCALE}cm, clip=false,`,
+      `  xmin=${formatNumber(viewport.xMin)}, xmax=${formatNumber(viewport.xMax)}, ymin=${formatNumber(
+        viewport.yMin
+      )}, ymax=${formatNumber(viewport.yMax)}]`,
+      `\\addplot[color=${color}, ${lineWidth}, ${markOptions}, unbounded coords=jump] table[row sep=\\\\] {`,
+      '  x y\\\\',
+      ...table.points.map((point) =>
+        point ? `  ${formatNumber(point.x)} ${formatNumber(point.y)}\\\\` : '  nan nan\\\\'
+      ),
+      '};',
+      '\\end{axis}'
+    );
+    return lines;
+  }
+
+  if (table.plotStyle !== 'markers') {
+    tableSegments(table.points).forEach((segment) => {
+      if (segment.length < 2) {
+        return;
+      }
+      const coords = segment.map((p) => `(${formatNumber(p.x)},${formatNumber(p.y)})`).join(' ');
+      lines.push(`\\draw[color=${color}, ${lineWidth}] plot coordinates {${coords}};`);
+    });
+  }
+
+  if (table.plotStyle !== 'lines') {
+    const coords = points.map((p) => `(${formatNumber(p.x)},${formatNumber(p.y)})`).join(' ');
+    lines.push(`\\draw[color=${color}] plot[only marks, mark=*, mark size=${markSize}] coordinates {${coords}};`);
+  }
+
+  return lines;
+}
+
+function pgfplotsContour(expr: PreparedExpression, viewport: Viewport, expression: string): string[] {
+  const samples = Math.max(25, Math.min(200, Math.round(Math.sqrt(expr.samples) * 4)));
+  const xDomain = `${formatNumber(viewport.xMin)}:${formatNumber(viewport.xMax)}`;
+  const yDomain = `${formatNumber(viewport.yMin)}:${formatNumber(viewport.yMax)}`;
+  return [
+    `% Implicit ${expr.rawInput} as a pgfplots contour (requires gnuplot and -shell-escape).`,
+    `% Keep x and y below in sync with the tikzpicture scale (${PICTURE_SCALE}).`,
+    `\\begin{axis}[hide axis, anchor=origin, at={(0,0)}, x={(${PICTURE_SCALE}cm,0cm)}, y={(0cm,${PICTURE_SCALE}cm)},`,
+    `  z={(0cm,0cm)}, clip=false, xmin=${formatNumber(viewport.xMin)}, xmax=${formatNumber(viewport.xMax)},`,
+    `  ymin=${formatNumber(viewport.yMin)}, ymax=${formatNumber(viewport.yMax)}]`,
+    `\\addplot3[${lineStyle(expr)}, contour gnuplot={levels={0}, labels=false, draw color=${tikzColor(expr.color)}},`,
+    `  domain=${xDomain}, y domain=${yDomain}, samples=${samples}]`,
+    `  {${expression}};`,
+    '\\end{axis}'
+  ];
+}
+
+function implicitToTikz(expr: PreparedExpression, viewport: Viewport, options: TikzExprOptions): string[] {
+  if (!expr.implicitEvaluator) {
+    return [];
+  }
+
+  const notes: string[] = [];
+  if (expr.implicitExport === 'pgfplots') {
+    const symbolic = convertAstToTikz(expr.node, { ...options, variables: PGFPLOTS_VARIABLES });
+    if (symbolic.ok && symbolic.expression) {
+      return pgfplotsContour(expr, viewport, symbolic.expression);
+    }
+    notes.push(`% pgfplots contour unavailable (${symbolic.reason ?? 'fallback'}).`);
+  }
+
+  const contours = sampleImplicitContours(expr.implicitEvaluator, viewport, expr.samples);
+  return [
+    `% Implicit ${expr.rawInput} (${contours.length} branch${contours.length === 1 ? '' : 'es'})`,
+    ...notes,
+    ...coordinatePlots(contours, lineStyle(expr))
+  ];
+}
+
+function inequalityToTikz(
+  expr: PreparedExpression,
+  viewport: Viewport,
+  options: TikzExprOptions
+): string[] {
+  if (!expr.inequality) {
+    return [];
+  }
+
+  const { relation, boundary } = expr.inequality;
+  const fillStyle = `fill=${tikzColor(expr.color)}, opacity=${REGION_OPACITY}`;
+  const boundaryStyle = lineStyle(expr, expr.dashed || isStrictRelation(relation));
+  const lines = [`% Region ${expr.rawInput}`];
+
+  if (boundary === 'implicit') {
+    if (!expr.implicitEvaluator) {
+      return [];
+    }
+
+    const cells = sampleInequalityRegion(expr.implicitEvaluator, relation, viewport, 80);
+    const rectangles = cells.map(
+      (cell) =>
+        `(${formatNumber(cell.x0)},${formatNumber(cell.y0)}) rectangle (${formatNumber(cell.x1)},${formatNumber(cell.y1)})`
+    );
+
+    if (rectangles.length > 0) {
+      lines.push(`\\fill[${fillStyle}]`);
+      for (let i = 0; i < rectangles.length; i += 4) {
+        lines.push(`  ${rectangles.slice(i, i + 4).join(' ')}`);
+      }
+      lines.push(';');
+    }
+
+    const contours = sampleImplicitContours(expr.implicitEvaluator, viewport, expr.samples);
+    lines.push(...coordinatePlots(contours, boundaryStyle));
+    return lines;
+  }
+
+  const clampedDomain = clampedExplicitDomain(expr, viewport);
+  if (!expr.evaluator || !clampedDomain) {
+    return [`% Skipped ${expr.rawInput}: domain is outside viewport.`];
+  }
+
+  const edgeY = formatNumber(relation === '<' || relation === '<=' ? viewport.yMin : viewport.yMax);
+  const symbolic = convertAstToTikz(expr.node, options);
+
+  if (symbolic.ok && symbolic.expression) {
+    const sampleCount = plotSamples(expr);
+    const xMin = formatNumber(clampedDomain.xMin);
+    const xMax = formatNumber(clampedDomain.xMax);
+    lines.push(
+      `\\fill[${fillStyle}, domain=${xMin}:${xMax}, samples=${sampleCount}, smooth, variable=\\x]`,
+      `  plot ({\\x},{${symbolic.expression}}) -- (${xMax},${edgeY}) -- (${xMin},${edgeY}) -- cycle;`
+    );
+  } else {
+    const { segments } = sampleExpression(
+      expr.evaluator,
+      clampedDomain.xMin,
+      clampedDomain.xMax,
+      expr.samples,
+      viewport
+    );
+    segments.forEach((segment) => {
+      const slim = downsample(segment, 800);
+      const coords = slim.map((p) => `(${formatNumber(p.x)},${formatNumber(p.y)})`).join(' ');
+      const first = formatNumber(slim[0].x);
+      const last = formatNumber(slim[slim.length - 1].x);
+      lines.push(`\\fill[${fillStyle}] plot coordinates {${coords}} -- (${last},${edgeY}) -- (${first},${edgeY}) -- cycle;`);
+    });
+  }
+
+  lines.push(...explicitToTikz(expr, viewport, options, boundaryStyle));
+  return lines;
+}
+
+function expressionToTikz(
+  expr: PreparedExpression,
+  viewport: Viewport,
+  options: TikzExprOptions
+): string[] {
+  if (!expr.visible || expr.error) {
+    return [];
+  }
+
+  if (expr.mode === 'parameter' && expr.parameter) {
+    return [`% Parameter ${expr.parameter.name} = ${formatNumber(expr.parameter.value)}`];
+  }
+
+  if (expr.mode === 'function' && expr.definition) {
+    return [`% Function ${expr.normalizedInput} is inlined where it is used.`];
+  }
+
+  if (expr.mode === 'parametric') {
+    return parametricToTikz(expr, viewport, options);
+  }
+
+  if (expr.mode === 'polar') {
+    return polarToTikz(expr, viewport, options);
+  }
+
+  if (expr.mode === 'point') {
+    return pointsToTikz(expr);
+  }
+
+  if (expr.mode === 'implicit') {
+    return implicitToTikz(expr, viewport, options);
+  }
+
+  if (expr.mode === 'mirrored') {
+    return mirroredToTikz(expr, viewport, options);
+  }
+
+  if (expr.mode === 'inequality') {
+    return inequalityToTikz(expr, viewport, options);
+  }
+
+  if (expr.pieces) {
+    return piecewiseToTikz(expr, viewport, options, lineStyle(expr));
+  }
+
+  if (expr.fit) {
+    const coefficients = Object.entries(expr.fit.coefficients)
+      .map(([name, value]) => `${name} = ${formatNumber(value)}`)
+      .join(', ');
+    return [
+      `% Fit ${expr.rawInput}: ${coefficients}, R^2 = ${expr.fit.rSquared.toFixed(4)}`,
+      ...explicitToTikz(expr, viewport, options, lineStyle(expr))
+    ];
+  }
+
+  return explicitToTikz(expr, viewport, options, lineStyle(expr));
+}
+
+function exprOptions(settings: GraphSettings, parameters: Record<string, number>): TikzExprOptions {
+  return {
+    parameters,
+    angleMode: settings.angleMode,
+    sampledTrig: settings.trigExport === 'coordinates'
+  };
+}
+
+function coordinateExportReason(expr: PreparedExpression, options: TikzExprOptions): string | null {
+  const failure = (nodes: Array<MathNode | null>, nodeOptions: TikzExprOptions): string | null => {
+    for (const node of nodes) {
+      const symbolic = convertAstToTikz(node, nodeOptions);
+      if (!symbolic.ok || !symbolic.expression) {
+        return symbolic.reason ?? 'fallback';
+      }
+    }
+    return null;
+  };
+
+  if (expr.mode === 'parametric' && expr.componentNodes) {
+    return failure(expr.componentNodes, { ...options, variables: { t: '\\t' } });
+  }
+  if (expr.mode === 'polar') {
+    return failure([expr.node], { ...options, variables: { theta: '\\t' } });
+  }
+  if (expr.mode === 'mirrored') {
+    return usesSymbol(expr.node, 'y') ? failure([expr.node], { ...options, variables: MIRRORED_VARIABLES }) : null;
+  }
+  if (expr.mode === 'implicit') {
+    return expr.implicitExport === 'pgfplots'
+      ? failure([expr.node], { ...options, variables: PGFPLOTS_VARIABLES })
+      : null;
+  }
+  if (expr.mode === 'inequality' && expr.inequality?.boundary === 'implicit') {
+    return null;
+  }
+  if (expr.pieces) {
+    return failure(expr.pieces.map((piece) => piece.value), options);
+  }
+  if (expr.mode === 'explicit' || expr.mode === 'inequality') {
+    return failure([expr.node], options);
+  }
+  return null;
+}
+
+export function exportDiagnostics(
+  expr: PreparedExpression,
+  settings: GraphSettings,
+  parameters: Record<string, number>
+): Diagnostic[] {
+  if (expr.error || !expr.rawInput.trim()) {
+    return [];
+  }
+
+  const reason = coordinateExportReason(expr, exprOptions(settings, parameters));
+  return reason ? [exportWarning(expr.rawInput, reason, Object.keys(FUNCTION_ARITY))] : [];
+}
+
+function trigNote(settings: GraphSettings): string {
+  if (settings.trigExport === 'coordinates') {
+    return '% Note: trig/inverse trig expressions are exported as sampled coordinates.';
+  }
+  return settings.angleMode === 'degrees'
+    ? '% Note: trig functions use degrees, matching pgfmath.'
+    : '% Note: trig functions use radians; arguments are wrapped in deg() and inverse trig results scaled by pi/180.';
+}
+
+export function generateTikzExport({
+  expressions,
+  tables,
+  viewport,
+  settings,
+  parameters,
+  intersections,
+  pointsOfInterest
+}: TikzExportInput): string {
+  const usesPgfplots =
+    tables.some((table) => table.visible && !table.error && table.exportFormat === 'pgfplots') ||
+    expressions.some(
+      (expr) => expr.visible && !expr.error && expr.mode === 'implicit' && expr.implicitExport === 'pgfplots'
+    );
   const header = [
     '% GraphToTeX export',
     '% Scale tip: add scale=<value> in tikzpicture options, e.g. \\begin{tikzpicture}[scale=0.8, ...]',
-    '% Required packages: \\usepackage{tikz} and \\usetikzlibrary{arrows.meta}',
-    '% Note: trig/inverse trig expressions are exported as sampled coordinates to preserve radian behavior.',
+    usesPgfplots
+      ? '% Required packages: \\usepackage{tikz}, \\usetikzlibrary{arrows.meta} and \\usepackage{pgfplots}'
+      : '% Required packages: \\usepackage{tikz} and \\usetikzlibrary{arrows.meta}',
+    trigNote(settings),
     '\\begin{center}',
-    '\\begin{tikzpicture}[scale=0.6, line cap=round, line join=round, >=Stealth]',
+    `\\begin{tikzpicture}[scale=${PICTURE_SCALE}, line cap=round, line join=round, >=Stealth]`,
     `\\clip (${formatNumber(viewport.xMin)},${formatNumber(viewport.yMin)}) rectangle (${formatNumber(
       viewport.xMax
     )},${formatNumber(viewport.yMax)});`
   ];
 
+  const options = exprOptions(settings, parameters);
   const body = [...buildGridAndAxes(viewport, settings)];
 
   expressions.forEach((expr) => {
-    body.push(...expressionToTikz(expr, viewport));
+    body.push(
+      ...expressionToTikz(expr, viewport, options),
+      ...pointsOfInterestToTikz(expr, pointsOfInterest[expr.id] ?? [])
+    );
   });
 
+  tables.forEach((table, index) => {
+    body.push(...tableToTikz(table, index + 1, viewport));
+  });
+
+  body.push(...markedPointsToTikz('Intersections', intersections));
+
   body.push(...buildFrameAndWatermark(viewport));
 
   return [...header, ...body, '\\end{tikzpicture}', '\\end{center}'].join('\n');
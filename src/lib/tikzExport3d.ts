@@ -1,12 +1,13 @@
 import type { GraphSettings3D, PreparedExpression3D, Viewport3D } from '../types';
 import { parseSurfaceDomainBounds } from './mathParser3d';
 import { formatNumber } from './formatting';
-import { convertAstToTikz3D } from './tikzExpr3d';
+import { convertAstToTikz3D, type TikzExpr3DOptions } from './tikzExpr3d';
 
 interface TikzExport3DInput {
   expressions: PreparedExpression3D[];
   viewport: Viewport3D;
   settings: GraphSettings3D;
+  parameters: Record<string, number>;
 }
 
 function hexToRgb(hex: string): { r: number; g: number; b: number } {
@@ -25,7 +26,11 @@ function tikzColor(hex: string): string {
   return `{rgb,255:red,${r};green,${g};blue,${b}}`;
 }
 
-function surfaceToTikz(expr: PreparedExpression3D, viewport: Viewport3D): string[] {
+function surfaceToTikz(
+  expr: PreparedExpression3D,
+  viewport: Viewport3D,
+  options: TikzExpr3DOptions
+): string[] {
   if (!expr.visible || !expr.evaluator || expr.error) {
     return [];
   }
@@ -42,7 +47,7 @@ function surfaceToTikz(expr: PreparedExpression3D, viewport: Viewport3D): string
     return [`% Skipped ${expr.rawInput}: domain is outside viewport.`];
   }
 
-  const symbolic = convertAstToTikz3D(expr.node);
+  const symbolic = convertAstToTikz3D(expr.node, options);
   const sampleDensity = 15;
 
   if (symbolic.ok && symbolic.expression) {
@@ -100,7 +105,12 @@ function surfaceToTikz(expr: PreparedExpression3D, viewport: Viewport3D): string
   ];
 }
 
-export function generateTikzExport3D({ expressions, viewport, settings }: TikzExport3DInput): string {
+export function generateTikzExport3D({
+  expressions,
+  viewport,
+  settings,
+  parameters
+}: TikzExport3DInput): string {
   const azimuth = ((viewport.yaw * 180) / Math.PI + 360) % 360;
   const elevation = Math.max(-85, Math.min(85, (viewport.pitch * 180) / Math.PI));
 
@@ -126,7 +136,7 @@ export function generateTikzExport3D({ expressions, viewport, settings }: TikzEx
   const body: string[] = [];
 
   expressions.forEach((expr) => {
-    body.push(...surfaceToTikz(expr, viewport));
+    body.push(...surfaceToTikz(expr, viewport, { parameters, angleMode: settings.angleMode }));
   });
 
   if (body.length === 0) {
@@ -1,4 +1,7 @@
 import type { MathNode } from 'mathjs';
+import type { AngleMode } from '../types';
+import { NUMERIC_CALCULUS_FUNCTIONS } from './calculus';
+import { ANGLE_FUNCTIONS, pgfmathCall } from './functionLibrary';
 
 export interface TikzExprResult {
   ok: boolean;
@@ -6,14 +9,25 @@ export interface TikzExprResult {
   reason?: string;
 }
 
-const UNSUPPORTED_TRIG = new Set(['sin', 'cos', 'tan', 'asin', 'acos', 'atan']);
-const SUPPORTED_FUNCTIONS = new Set(['sqrt', 'abs', 'exp', 'log', 'ln']);
+export interface TikzExprOptions {
+  parameters?: Record<string, number>;
+  variables?: Record<string, string>;
+  angleMode?: AngleMode;
+  sampledTrig?: boolean;
+}
+
+const DEFAULT_VARIABLES: Record<string, string> = { x: '\\x' };
 
 function wrapBinary(op: string, left: string, right: string): string {
   return `(${left})${op}(${right})`;
 }
 
-function convertNode(node: MathNode): TikzExprResult {
+export function formatConstant(value: number): string {
+  const text = Number(value.toPrecision(10)).toString();
+  return value < 0 ? `(${text})` : text;
+}
+
+function convertNode(node: MathNode, options: TikzExprOptions): TikzExprResult {
   const unknownNode = (): TikzExprResult => ({
     ok: false,
     reason: `Unsupported node type ${node.type}`
@@ -21,24 +35,28 @@ function convertNode(node: MathNode): TikzExprResult {
 
   if (node.type === 'ParenthesisNode') {
     const content = (node as unknown as { content: MathNode }).content;
-    return convertNode(content);
+    return convertNode(content, options);
   }
 
   if (node.type === 'ConstantNode') {
-    const value = (node as unknown as { value: string }).value;
+    const value = (node as unknown as { value: string | number }).value;
     if (value === 'pi') {
       return { ok: true, expression: 'pi' };
     }
     if (value === 'e') {
       return { ok: true, expression: 'exp(1)' };
     }
-    return { ok: true, expression: value };
+    if (typeof value === 'number' && Number.isNaN(value)) {
+      return { ok: false, reason: 'Undefined values cannot be exported symbolically.' };
+    }
+    return { ok: true, expression: String(value) };
   }
 
   if (node.type === 'SymbolNode') {
     const name = (node as unknown as { name: string }).name;
-    if (name === 'x') {
-      return { ok: true, expression: '\\x' };
+    const variable = (options.variables ?? DEFAULT_VARIABLES)[name];
+    if (variable) {
+      return { ok: true, expression: variable };
     }
     if (name === 'pi') {
       return { ok: true, expression: 'pi' };
@@ -46,6 +64,10 @@ function convertNode(node: MathNode): TikzExprResult {
     if (name === 'e') {
       return { ok: true, expression: 'exp(1)' };
     }
+    const parameterValue = options.parameters?.[name];
+    if (parameterValue !== undefined) {
+      return { ok: true, expression: formatConstant(parameterValue) };
+    }
     return { ok: false, reason: `Unsupported symbol ${name}` };
   }
 
@@ -58,7 +80,7 @@ function convertNode(node: MathNode): TikzExprResult {
     };
 
     if (operatorNode.isUnary() && operatorNode.op === '-') {
-      const arg = convertNode(operatorNode.args[0]);
+      const arg = convertNode(operatorNode.args[0], options);
       if (!arg.ok || !arg.expression) {
         return arg;
       }
@@ -69,8 +91,8 @@ function convertNode(node: MathNode): TikzExprResult {
       return { ok: false, reason: 'Only binary operators are supported.' };
     }
 
-    const left = convertNode(operatorNode.args[0]);
-    const right = convertNode(operatorNode.args[1]);
+    const left = convertNode(operatorNode.args[0], options);
+    const right = convertNode(operatorNode.args[1], options);
 
     if (!left.ok) {
       return left;
@@ -110,39 +132,29 @@ function convertNode(node: MathNode): TikzExprResult {
 
     const fnName = fnNode.fn.name ?? '';
 
-    if (UNSUPPORTED_TRIG.has(fnName)) {
-      return {
-        ok: false,
-        reason: `Trig/inverse trig export is emitted as coordinates for safety (${fnName}).`
-      };
-    }
-
-    if (!SUPPORTED_FUNCTIONS.has(fnName)) {
-      return { ok: false, reason: `Unsupported function ${fnName}` };
-    }
-
-    if (fnNode.args.length !== 1) {
-      return { ok: false, reason: `${fnName} with multiple arguments is unsupported.` };
+    if (options.sampledTrig && ANGLE_FUNCTIONS.has(fnName)) {
+      return { ok: false, reason: `Trig export is set to sampled coordinates for ${fnName}.` };
     }
 
-    const arg = convertNode(fnNode.args[0]);
-    if (!arg.ok || !arg.expression) {
-      return arg;
+    if (NUMERIC_CALCULUS_FUNCTIONS.has(fnName)) {
+      return { ok: false, reason: 'Numeric integrals and derivatives are exported as coordinates.' };
     }
 
-    if (fnName === 'log' || fnName === 'ln') {
-      return { ok: true, expression: `ln(${arg.expression})` };
+    const args = fnNode.args.map((arg) => convertNode(arg, options));
+    const failed = args.find((arg) => !arg.ok || !arg.expression);
+    if (failed) {
+      return failed;
     }
 
-    return { ok: true, expression: `${fnName}(${arg.expression})` };
+    return pgfmathCall(fnName, args.map((arg) => arg.expression ?? ''), options.angleMode);
   }
 
   return unknownNode();
 }
 
-export function convertAstToTikz(node: MathNode | null): TikzExprResult {
+export function convertAstToTikz(node: MathNode | null, options: TikzExprOptions = {}): TikzExprResult {
   if (!node) {
     return { ok: false, reason: 'No parsed expression.' };
   }
-  return convertNode(node);
+  return convertNode(node, options);
 }
@@ -1,4 +1,8 @@
 import type { MathNode } from 'mathjs';
+import type { AngleMode } from '../types';
+import { NUMERIC_CALCULUS_FUNCTIONS } from './calculus';
+import { pgfmathCall } from './functionLibrary';
+import { formatConstant } from './tikzExpr';
 
 export interface TikzExpr3DResult {
   ok: boolean;
@@ -6,25 +10,44 @@ export interface TikzExpr3DResult {
   reason?: string;
 }
 
+export interface TikzExpr3DOptions {
+  parameters?: Record<string, number>;
+  angleMode?: AngleMode;
+}
+
+const COMPARISON_OPERATORS: Record<string, string> = {
+  smaller: '<',
+  smallerEq: '<=',
+  larger: '>',
+  largerEq: '>=',
+  equal: '==',
+  unequal: '!=',
+  and: '&&',
+  or: '||'
+};
+
 function wrapBinary(op: string, left: string, right: string): string {
   return `(${left})${op}(${right})`;
 }
 
-function convertNode(node: MathNode): TikzExpr3DResult {
+function convertNode(node: MathNode, options: TikzExpr3DOptions): TikzExpr3DResult {
   if (node.type === 'ParenthesisNode') {
     const content = (node as unknown as { content: MathNode }).content;
-    return convertNode(content);
+    return convertNode(content, options);
   }
 
   if (node.type === 'ConstantNode') {
-    const value = (node as unknown as { value: string }).value;
+    const value = (node as unknown as { value: string | number }).value;
     if (value === 'pi') {
       return { ok: true, expression: 'pi' };
     }
     if (value === 'e') {
       return { ok: true, expression: 'exp(1)' };
     }
-    return { ok: true, expression: value };
+    if (typeof value === 'number' && Number.isNaN(value)) {
+      return { ok: false, reason: 'Undefined values cannot be exported symbolically.' };
+    }
+    return { ok: true, expression: String(value) };
   }
 
   if (node.type === 'SymbolNode') {
@@ -38,6 +61,10 @@ function convertNode(node: MathNode): TikzExpr3DResult {
     if (name === 'e') {
       return { ok: true, expression: 'exp(1)' };
     }
+    const parameterValue = options.parameters?.[name];
+    if (parameterValue !== undefined) {
+      return { ok: true, expression: formatConstant(parameterValue) };
+    }
     return { ok: false, reason: `Unsupported symbol ${name}` };
   }
 
@@ -49,20 +76,20 @@ function convertNode(node: MathNode): TikzExpr3DResult {
       isUnary: () => boolean;
     };
 
-    if (operatorNode.isUnary() && operatorNode.op === '-') {
-      const arg = convertNode(operatorNode.args[0]);
+    if (operatorNode.isUnary() && (operatorNode.fn === 'unaryMinus' || operatorNode.fn === 'not')) {
+      const arg = convertNode(operatorNode.args[0], options);
       if (!arg.ok || !arg.expression) {
         return arg;
       }
-      return { ok: true, expression: `-(${arg.expression})` };
+      return { ok: true, expression: `${operatorNode.fn === 'not' ? '!' : '-'}(${arg.expression})` };
     }
 
     if (operatorNode.args.length !== 2) {
       return { ok: false, reason: 'Only binary operators are supported.' };
     }
 
-    const left = convertNode(operatorNode.args[0]);
-    const right = convertNode(operatorNode.args[1]);
+    const left = convertNode(operatorNode.args[0], options);
+    const right = convertNode(operatorNode.args[1], options);
 
     if (!left.ok) {
       return left;
@@ -87,6 +114,10 @@ function convertNode(node: MathNode): TikzExpr3DResult {
       case 'pow':
         return { ok: true, expression: `pow(${left.expression},${right.expression})` };
       default:
+        if (operatorNode.fn in COMPARISON_OPERATORS) {
+          const comparison = COMPARISON_OPERATORS[operatorNode.fn];
+          return { ok: true, expression: wrapBinary(comparison, left.expression, right.expression) };
+        }
         return { ok: false, reason: `Unsupported operator ${operatorNode.op}` };
     }
   }
@@ -99,44 +130,53 @@ function convertNode(node: MathNode): TikzExpr3DResult {
 
     const fnName = fnNode.fn.name ?? '';
 
-    if (fnNode.args.length !== 1) {
-      return { ok: false, reason: `${fnName} with multiple arguments is unsupported.` };
-    }
-
-    const arg = convertNode(fnNode.args[0]);
-    if (!arg.ok || !arg.expression) {
-      return arg;
-    }
-
-    switch (fnName) {
-      case 'sin':
-      case 'cos':
-      case 'tan':
-        return { ok: true, expression: `${fnName}(deg(${arg.expression}))` };
-      case 'asin':
-      case 'acos':
-      case 'atan':
-        return { ok: true, expression: `(${fnName}(${arg.expression}))*pi/180` };
-      case 'sqrt':
-      case 'abs':
-      case 'exp':
-        return { ok: true, expression: `${fnName}(${arg.expression})` };
-      case 'log':
-        return { ok: true, expression: `ln(${arg.expression})` };
-      case 'log10':
-        return { ok: true, expression: `(ln(${arg.expression})/ln(10))` };
-      default:
-        return { ok: false, reason: `Unsupported function ${fnName}` };
+    if (NUMERIC_CALCULUS_FUNCTIONS.has(fnName)) {
+      return { ok: false, reason: 'Numeric integrals and derivatives are exported as coordinates.' };
+    }
+
+    const args = fnNode.args.map((arg) => convertNode(arg, options));
+    const failed = args.find((arg) => !arg.ok || !arg.expression);
+    if (failed) {
+      return failed;
     }
+
+    return pgfmathCall(fnName, args.map((arg) => arg.expression ?? ''), options.angleMode);
+  }
+
+  if (node.type === 'RelationalNode') {
+    const relationalNode = node as unknown as { conditionals: string[]; params: MathNode[] };
+    const params = relationalNode.params.map((param) => convertNode(param, options));
+    const failed = params.find((param) => !param.ok || !param.expression);
+    if (failed) {
+      return failed;
+    }
+
+    const comparisons = relationalNode.conditionals.map((fn, index) =>
+      wrapBinary(COMPARISON_OPERATORS[fn] ?? fn, params[index].expression ?? '', params[index + 1].expression ?? '')
+    );
+    return { ok: true, expression: comparisons.map((comparison) => `(${comparison})`).join('&&') };
+  }
+
+  if (node.type === 'ConditionalNode') {
+    const conditionalNode = node as unknown as { condition: MathNode; trueExpr: MathNode; falseExpr: MathNode };
+    const parts = [conditionalNode.condition, conditionalNode.trueExpr, conditionalNode.falseExpr].map((part) =>
+      convertNode(part, options)
+    );
+    const failed = parts.find((part) => !part.ok || !part.expression);
+    if (failed) {
+      return failed;
+    }
+
+    return { ok: true, expression: `ifthenelse(${parts.map((part) => part.expression).join(',')})` };
   }
 
   return { ok: false, reason: `Unsupported node type ${node.type}` };
 }
 
-export function convertAstToTikz3D(node: MathNode | null): TikzExpr3DResult {
+export function convertAstToTikz3D(node: MathNode | null, options: TikzExpr3DOptions = {}): TikzExpr3DResult {
   if (!node) {
     return { ok: false, reason: 'No parsed expression.' };
   }
 
-  return convertNode(node);
+  return convertNode(node, options);
 }
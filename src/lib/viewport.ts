@@ -146,3 +146,36 @@ export function buildTicks(min: number, max: number, maxTicks: number): number[]
 
   return ticks;
 }
+
+export function buildPolarGrid(
+  viewport: Viewport,
+  maxTicks: number,
+  angleStep = Math.PI / 6
+): { radii: number[]; angles: number[]; maxRadius: number } {
+  const corners = [
+    Math.hypot(viewport.xMin, viewport.yMin),
+    Math.hypot(viewport.xMin, viewport.yMax),
+    Math.hypot(viewport.xMax, viewport.yMin),
+    Math.hypot(viewport.xMax, viewport.yMax)
+  ];
+  const maxRadius = Math.max(...corners);
+
+  const nearestX = Math.max(viewport.xMin, Math.min(0, viewport.xMax));
+  const nearestY = Math.max(viewport.yMin, Math.min(0, viewport.yMax));
+  const minRadius = Math.hypot(nearestX, nearestY);
+
+  const step = getNiceTickStep(Math.min(viewport.xMax - viewport.xMin, viewport.yMax - viewport.yMin), maxTicks);
+  const radii: number[] = [];
+  const start = Math.max(step, Math.ceil(minRadius / step) * step);
+
+  for (let r = start; r <= maxRadius && radii.length < 400; r += step) {
+    radii.push(Number(r.toFixed(10)));
+  }
+
+  const angles: number[] = [];
+  for (let angle = 0; angle < 2 * Math.PI - 1e-9; angle += angleStep) {
+    angles.push(angle);
+  }
+
+  return { radii, angles, maxRadius };
+}
@@ -19,18 +19,42 @@ export interface Viewport3D {
   distance: number;
 }
 
+export type AngleMode = 'radians' | 'degrees';
+export type TrigExportMode = 'symbolic' | 'coordinates';
+
 export interface GraphSettings {
   showGrid: boolean;
   showAxes: boolean;
   showTicks: boolean;
+  polarGrid: boolean;
+  angleMode: AngleMode;
+  trigExport: TrigExportMode;
+  trace: boolean;
 }
 
 export interface GraphSettings3D {
   showGrid: boolean;
   showAxes: boolean;
   showBox: boolean;
+  angleMode: AngleMode;
+}
+
+export interface IntersectionQuery {
+  firstId: string;
+  secondId: string;
+  exported: boolean;
 }
 
+export type LabelAnchor =
+  | 'above'
+  | 'below'
+  | 'left'
+  | 'right'
+  | 'above left'
+  | 'above right'
+  | 'below left'
+  | 'below right';
+
 export interface Expression {
   id: string;
   rawInput: string;
@@ -41,6 +65,17 @@ export interface Expression {
   samples: number;
   domainMin: string;
   domainMax: string;
+  tMin: string;
+  tMax: string;
+  sliderMin: number;
+  sliderMax: number;
+  sliderStep: number;
+  endpointDots: boolean;
+  pointLabels: string[];
+  labelAnchor: LabelAnchor;
+  implicitExport: ImplicitExportFormat;
+  pointsOfInterest: boolean;
+  exportPointsOfInterest: boolean;
 }
 
 export interface Expression3D {
@@ -55,27 +90,158 @@ export interface Expression3D {
   domainXMax: string;
   domainYMin: string;
   domainYMax: string;
+  sliderMin: number;
+  sliderMax: number;
+  sliderStep: number;
+}
+
+export interface ParameterDefinition {
+  name: string;
+  value: number;
+}
+
+export type InequalityRelation = '<' | '<=' | '>' | '>=';
+
+export interface InequalityInfo {
+  relation: InequalityRelation;
+  boundary: 'explicit' | 'implicit';
+}
+
+export interface UserFunction {
+  name: string;
+  params: string[];
+  body: MathNode;
+}
+
+export interface Interval {
+  min: number;
+  max: number;
+  minClosed: boolean;
+  maxClosed: boolean;
+}
+
+export type BatchEvaluator = (inputs: Float64Array[]) => Float64Array;
+
+export type CurveBatchEvaluator = (ts: Float64Array) => [Float64Array, Float64Array];
+
+export interface PiecewisePiece {
+  condition: MathNode | null;
+  value: MathNode;
+  evaluator: (x: number) => number | null;
+  valueEvaluator: (x: number) => number | null;
+  intervals: Interval[] | null;
+}
+
+export interface FitResult {
+  column: string;
+  coefficients: Record<string, number>;
+  rSquared: number;
+  observations: number;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  start: number;
+  end: number;
+  suggestion: string | null;
 }
 
 export interface PreparedExpression extends Expression {
-  mode: 'explicit' | 'implicit';
+  mode:
+    | 'explicit'
+    | 'mirrored'
+    | 'implicit'
+    | 'parameter'
+    | 'function'
+    | 'parametric'
+    | 'polar'
+    | 'inequality'
+    | 'point';
   normalizedInput: string;
+  sourceKey: string;
   latex: string | null;
   error: string | null;
   evaluator: ((x: number) => number | null) | null;
   implicitEvaluator: ((x: number, y: number) => number | null) | null;
+  curveEvaluator: ((t: number) => Point | null) | null;
+  curveBatchEvaluator: CurveBatchEvaluator | null;
+  fullTurn: number | null;
+  batchEvaluator: BatchEvaluator | null;
   node: MathNode | null;
+  componentNodes: [MathNode, MathNode] | null;
+  inequality: InequalityInfo | null;
+  pieces: PiecewisePiece[] | null;
+  points: Point[] | null;
+  fit: FitResult | null;
+  parameter: ParameterDefinition | null;
+  definition: UserFunction | null;
+  diagnostics: Diagnostic[];
 }
 
 export interface PreparedExpression3D extends Expression3D {
   normalizedInput: string;
+  sourceKey: string;
   latex: string | null;
   error: string | null;
   evaluator: ((x: number, y: number) => number | null) | null;
+  batchEvaluator: BatchEvaluator | null;
   node: MathNode | null;
+  parameter: ParameterDefinition | null;
+  definition: UserFunction | null;
+  diagnostics: Diagnostic[];
+}
+
+export type TablePlotStyle = 'markers' | 'lines' | 'both';
+
+export type TableExportFormat = 'coordinates' | 'pgfplots';
+
+export type ImplicitExportFormat = 'coordinates' | 'pgfplots';
+
+export interface DataTable {
+  id: string;
+  csvText: string;
+  visible: boolean;
+  color: string;
+  lineWidth: number;
+  plotStyle: TablePlotStyle;
+  exportFormat: TableExportFormat;
+  xColumn: string;
+  yColumn: string;
+}
+
+export interface DataColumn {
+  name: string;
+  values: Array<number | null>;
+}
+
+export interface PreparedDataTable extends DataTable {
+  columns: DataColumn[];
+  points: Array<Point | null>;
+  error: string | null;
 }
 
 export interface Point {
   x: number;
   y: number;
 }
+
+export type PointOfInterestKind = 'zero' | 'maximum' | 'minimum' | 'inflection';
+
+export interface PointOfInterest extends Point {
+  kind: PointOfInterestKind;
+}
+
+export type CurveBreakKind = 'asymptote' | 'jump' | 'domain-edge';
+
+export interface CurveBreak {
+  x: number;
+  kind: CurveBreakKind;
+}
+
+export interface SampledCurve {
+  segments: Point[][];
+  breaks: CurveBreak[];
+}